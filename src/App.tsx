@@ -8,47 +8,50 @@ import InstallModule from "./components/InstallModule";
 import AppHeader from "./components/AppHeader";
 import AppFooter from "./components/AppFooter";
 import ModuleIntro from "./components/ModuleIntro";
-import StatusBar from "./components/StatusBar";
 import Address from "./components/Address";
 import OwnersView from "./components/OwnersView";
+import SignatureCollector from "./components/SignatureCollector";
+import PortfolioDashboard from "./components/PortfolioDashboard";
+import InheritedSafes from "./components/InheritedSafes";
+import AddressInput from "./components/AddressInput";
+import AddressBookPanel from "./components/AddressBookPanel";
+import HeirProofSigner from "./components/HeirProofSigner";
+import TransactionsPanel from "./components/TransactionsPanel";
+import ConfigIssues from "./components/ConfigIssues";
+import RpcStatus from "./components/RpcStatus";
+import UninstallModule from "./components/UninstallModule";
 
 // Validation
-import { validateSafeOnChain, type SafeValidationResult } from "./lib/safeValidation";
+import { type SafeValidationResult } from "./lib/safeValidation";
+import { readInstallState } from "./lib/batchReads";
 
 // Helpers & config
 import { useSafeApp } from "./lib/safeApp";
-import { CHAINS, getFactoryAddress } from "./config/chains";
+import { readSafeFromUrl } from "./lib/links";
+import { switchWalletChain } from "./lib/wallet";
+import { useWalletAccount } from "./lib/useWalletAccount";
+import { useWalletProvider } from "./wallet/ethers";
+import { setActiveBookChain } from "./lib/addressBook";
+import { notify, type Severity } from "./lib/notifications";
+import { onTxSettled, resumeTracking } from "./lib/txTracker";
+import { challengeToLink, readChallengeFromLocation, type KeyChallenge } from "./lib/keyProof";
+import type { WatchEntry } from "./lib/portfolio";
 import {
-  predictModuleForSafe,
-  isDeployed as codeExists,
-  isModuleEnabled as checkEnabled,
-} from "./lib/moduleInstall";
+  bundleToLink,
+  readBundleFromLocation,
+  type SignatureBundle,
+} from "./lib/signatureBundle";
+import { CHAINS, DEFAULT_CHAIN_ID, getFactoryAddress } from "./config/chains";
+import { getInstallSalt } from "./lib/moduleInstall";
+import { getRuntimeConfig } from "./config/runtime";
+import { getPublicProvider } from "./lib/rpc";
 
 // ───────────────────────────────────────────────────────────────────────────────
-// Env & RPC fallback
+// Runtime config
 // ───────────────────────────────────────────────────────────────────────────────
-const DEFAULT_SAFE = (import.meta.env.VITE_DEFAULT_SAFE || "").trim();
+const DEFAULT_SAFE = getRuntimeConfig().defaultSafe;
 const LS_SAFE_KEY = "heirsafe:lastSafe";
-const ENV_FALLBACK = (import.meta.env.VITE_FALLBACK_RPC || "").trim();
-const DEFAULT_CHAIN_ID = 11155111; // Sepolia (for fallback public reads)
-
-function pickFallbackRpc(defaultChainId: number): string | null {
-  if (ENV_FALLBACK) return ENV_FALLBACK;
-  const c = (CHAINS as any)?.[defaultChainId];
-  if (!c) return null;
-
-  if (c.rpcUrls?.default?.http?.length) return c.rpcUrls.default.http[0];
-  if (c.rpcUrls?.public?.http?.length) return c.rpcUrls.public.http[0];
-
-  if (Array.isArray(c.rpcUrls) && c.rpcUrls.length) return c.rpcUrls[0];
-  if (typeof c.rpcUrls === "string" && c.rpcUrls) return c.rpcUrls;
-  if (typeof c.rpcUrl === "string" && c.rpcUrl) return c.rpcUrl;
-  if (typeof c.rpc === "string" && c.rpc) return c.rpc;
-
-  return null;
-}
-
-const FALLBACK_RPC = pickFallbackRpc(DEFAULT_CHAIN_ID);
+const FEATURES = getRuntimeConfig().features;
 
 // ───────────────────────────────────────────────────────────────────────────────
 // Network-change stability helpers
@@ -62,6 +65,11 @@ type SafeCheck =
   | { status: "ok"; owners: string[]; threshold: number; version?: string }
   | { status: "invalid"; label: string; help?: string };
 
+/** Install/validation status → one correlated notification (history only unless it needs attention). */
+function setStatus(msg: string, severity: Severity = "info", toast = false) {
+  notify(msg, severity, { key: "app:status", source: "Status", silent: !toast });
+}
+
 export default function App() {
   // Stable “scope” guard to drop late async results after a chain switch.
   const scopeRef = useRef(0);
@@ -71,69 +79,52 @@ export default function App() {
   // Safe App context (iframe)
   const { isSafeApp, safe, provider: safeEip1193 } = useSafeApp();
 
-  // Injected wallet provider (EOA)
-  const [injected, setInjected] = useState<ethers.BrowserProvider | null>(null);
-  useEffect(() => {
-    const eth = (window as any).ethereum;
-    if (eth) setInjected(new ethers.BrowserProvider(eth, "any")); // tolerate chain switching
-  }, []);
+  // Connected wallet (any wagmi connector)
+  const walletProvider = useWalletProvider();
 
-  // Unified read provider: Safe iframe → injected → public fallback
+  // Unified read provider: Safe iframe → connected wallet → public fallback
   const readProvider = useMemo(() => {
     if (safeEip1193) return new ethers.BrowserProvider(safeEip1193 as any, "any");
-    if (injected) return injected;
-    return FALLBACK_RPC ? new ethers.JsonRpcProvider(FALLBACK_RPC) : null;
-  }, [safeEip1193, injected]);
+    if (walletProvider) return walletProvider;
+    return getPublicProvider(DEFAULT_CHAIN_ID);
+  }, [safeEip1193, walletProvider]);
 
-  // Track current chainId of readProvider
+  // Track current chainId of readProvider (the wallet provider is rebuilt on chain switches)
   const [chainId, setChainId] = useState<number | null>(null);
   useEffect(() => {
-    let cleanup = () => {};
-    (async () => {
-      if (!readProvider) {
-        setChainId(null);
-        return;
-      }
-      const net = await (readProvider as any).getNetwork();
-      setChainId(Number(net.chainId));
-
-      // Listen to wallet chain changes (only when not inside Safe)
-      const eth = (window as any).ethereum;
-      if (eth && !safeEip1193) {
-        const handler = (cidHex: string) => {
-          try {
-            const cid = parseInt(cidHex, 16);
-            setChainId(cid);
-            // Invalidate pending async work from the previous network
-            bumpScope();
-            // Clear derived state quickly to avoid stale UI
-            setPredicted("");
-            setDeployed(null);
-            setEnabled(null);
-            setStatus("Switched network");
-            setSafeCheck({ status: "checking" });
-          } catch {}
-        };
-        eth.on?.("chainChanged", handler);
-        cleanup = () => eth.removeListener?.("chainChanged", handler);
-      }
-    })();
-    return cleanup;
-  }, [readProvider, safeEip1193, bumpScope]); // keep deps stable
-
-  // Also clear on any chainId change (covers Safe iframe & fallback)
+    let stop = false;
+    if (!readProvider) {
+      setChainId(null);
+      return;
+    }
+    readProvider
+      .getNetwork()
+      .then((net) => !stop && setChainId(Number(net.chainId)))
+      .catch(() => !stop && setChainId(null));
+    return () => {
+      stop = true;
+    };
+  }, [readProvider]);
+
+  // Clear derived state on any chainId change; invalidate pending async work from the previous network
+  const prevChainRef = useRef<number | null>(null);
   useEffect(() => {
     if (chainId == null) return;
+    const switched = prevChainRef.current != null && prevChainRef.current !== chainId;
+    prevChainRef.current = chainId;
     bumpScope();
     setPredicted("");
     setDeployed(null);
     setEnabled(null);
-    setStatus("Checking…");
+    if (switched) setStatus("Switched network", "info", true);
+    else setStatus("Checking…");
     setSafeCheck({ status: "checking" });
   }, [chainId, bumpScope]);
 
-  // Safe address (prefill from env / localStorage / Safe App)
+  // Safe address (prefill from ?safe= link / localStorage / env / Safe App)
   const [safeAddr, setSafeAddr] = useState<string>(() => {
+    const fromUrl = readSafeFromUrl();
+    if (fromUrl) return fromUrl;
     try {
       return localStorage.getItem(LS_SAFE_KEY) || DEFAULT_SAFE || "";
     } catch {
@@ -151,6 +142,37 @@ export default function App() {
     }
   }, [isSafeApp, safe]);
 
+  // Offline signature bundle (opened from a #sign= link or created by InstallModule)
+  const [bundle, setBundle] = useState<SignatureBundle | null>(() =>
+    readBundleFromLocation()
+  );
+
+  // A shared link points at its own Safe
+  const bundleSafe = bundle?.safe;
+  useEffect(() => {
+    if (bundleSafe && !isSafeApp) setSafeAddr(bundleSafe);
+  }, [bundleSafe, isSafeApp]);
+
+  // Heir-side key-control proof (opened from a #heir-proof= link)
+  const [heirProof, setHeirProof] = useState<KeyChallenge | null>(() =>
+    readChallengeFromLocation()
+  );
+
+  // Keep the address bar shareable: it always carries the latest signatures
+  useEffect(() => {
+    try {
+      const { pathname, search } = window.location;
+      const href = bundle
+        ? bundleToLink(bundle)
+        : heirProof
+        ? challengeToLink(heirProof)
+        : pathname + search;
+      window.history.replaceState(null, "", href);
+    } catch {
+      /* history API blocked (sandboxed iframe) */
+    }
+  }, [bundle, heirProof]);
+
   // Persist last used safe (when not in Safe App)
   useEffect(() => {
     try {
@@ -173,10 +195,9 @@ export default function App() {
   const [predicted, setPredicted] = useState<string>("");
   const [deployed, setDeployed] = useState<boolean | null>(null);
   const [enabled, setEnabled] = useState<boolean | null>(null);
-  const [status, setStatus] = useState<string>("");
 
   // Core refresh — scope-guarded against chain switches
-  async function refreshInstallState() {
+  const refreshInstallState = useCallback(async () => {
     const myScope = getScope();
     const ifCurrent =
       <T extends any[]>(fn: (...args: T) => void) =>
@@ -193,7 +214,7 @@ export default function App() {
         ifCurrent(setPredicted)("");
         ifCurrent(setDeployed)(null);
         ifCurrent(setEnabled)(null);
-        ifCurrent(setStatus)("Enter a valid Safe address");
+        ifCurrent(setStatus)("Enter a valid Safe address", "warn");
         return;
       }
 
@@ -206,18 +227,23 @@ export default function App() {
         ifCurrent(setPredicted)("");
         ifCurrent(setDeployed)(null);
         ifCurrent(setEnabled)(null);
-        ifCurrent(setStatus)("Factory not configured for this network");
+        ifCurrent(setStatus)("Factory not configured for this network", "warn", true);
         return;
       }
 
-      // 1) Validate Safe on current network
+      // 1) Validate Safe, factory and predicted module — batched via Multicall3
       ifCurrent(setSafeCheck)({ status: "checking" });
-      const v: SafeValidationResult = await validateSafeOnChain(
+      const saltHex = getInstallSalt();
+
+      const st = await readInstallState(
         readProvider as any,
-        safeAddr
+        safeAddr,
+        normalizedFactory,
+        saltHex
       );
       if (getScope() !== myScope) return;
 
+      const v: SafeValidationResult = st.validation;
       if (!v.ok) {
         const label =
           v.reason === "invalid_address"
@@ -231,7 +257,7 @@ export default function App() {
         ifCurrent(setPredicted)("");
         ifCurrent(setDeployed)(null);
         ifCurrent(setEnabled)(null);
-        ifCurrent(setStatus)(label);
+        ifCurrent(setStatus)(label, "warn", true);
         return; // stop — do not show Deploy UI / predicted addr
       }
 
@@ -243,43 +269,22 @@ export default function App() {
       });
 
       // 2) Ensure factory code exists
-      const code = await (readProvider as any).getCode(normalizedFactory);
-      if (getScope() !== myScope) return;
-      if (!code || code === "0x")
+      if (!st.factoryDeployed)
         throw new Error("Factory not deployed on this network");
+      if (!st.predicted) throw new Error("Factory predict() failed");
 
-      // 3) Predict module addr and check deployed/enabled
-      const saltHex =
-        (import.meta.env.VITE_INSTALL_SALT as string) || "0x" + "00".repeat(32);
-      if (!/^0x[0-9a-fA-F]{64}$/.test(saltHex)) {
-        throw new Error("VITE_INSTALL_SALT must be 0x + 64 hex chars");
-      }
-
-      const addr = await predictModuleForSafe(
-        readProvider as any,
-        normalizedFactory,
-        safeAddr,
-        saltHex
-      );
-      if (getScope() !== myScope) return;
-      ifCurrent(setPredicted)(addr);
-
-      const hasCode = await codeExists(readProvider as any, addr);
-      if (getScope() !== myScope) return;
-      ifCurrent(setDeployed)(Boolean(hasCode));
-
-      const en = hasCode
-        ? await checkEnabled(readProvider as any, safeAddr, addr)
-        : false;
-      if (getScope() !== myScope) return;
-      ifCurrent(setEnabled)(en);
+      // 3) Predicted module addr and deployed/enabled state
+      ifCurrent(setPredicted)(st.predicted);
+      ifCurrent(setDeployed)(st.deployed);
+      ifCurrent(setEnabled)(st.enabled);
 
       ifCurrent(setStatus)(
-        en
+        st.enabled
           ? "Module installed"
-          : hasCode
+          : st.deployed
           ? "Module deployed, not enabled"
-          : "Module not deployed"
+          : "Module not deployed",
+        st.enabled ? "success" : "info"
       );
     } catch (e: any) {
       if (isNetworkChangedError(e)) return; // wallet switching noise
@@ -293,22 +298,54 @@ export default function App() {
       setPredicted("");
       setDeployed(null);
       setEnabled(null);
-      setStatus(`Error: ${e?.message || String(e)}`);
+      notify(`Error: ${e?.message || String(e)}`, "error", { source: "Status", safe: safeAddr, chainId: chainId ?? undefined });
       console.error("refreshInstallState error:", e);
     }
-  }
+  }, [getScope, readProvider, safeAddr, normalizedFactory, chainId]);
 
   // Re-run validation whenever deps change (including chainId)
   useEffect(() => {
     if (!readProvider || !readyForChain) return;
-    (async () => {
-      await refreshInstallState();
-    })();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [safeAddr, readProvider, readyForChain, chainId]);
+    refreshInstallState();
+  }, [readProvider, readyForChain, refreshInstallState]);
+
+  // Pick up transactions that were still pending when the page was closed
+  useEffect(() => resumeTracking(), []);
+
+  // Deploy/enable txs change the install state of the Safe they target
+  useEffect(
+    () =>
+      onTxSettled((t) => {
+        if (t.chainId === chainId && t.safe?.toLowerCase() === safeAddr.toLowerCase()) {
+          bumpScope();
+          refreshInstallState();
+        }
+      }),
+    [safeAddr, chainId, bumpScope, refreshInstallState]
+  );
 
   const isInSafe = isSafeApp && !!safe?.safeAddress;
 
+  // Portfolio row → detailed view (switch the wallet if the Safe lives elsewhere)
+  async function openWatched(e: WatchEntry) {
+    setSafeAddr(e.safe);
+    if (chainId !== e.chainId) {
+      try {
+        await switchWalletChain(e.chainId);
+      } catch (err) {
+        console.error("openWatched: network switch failed:", err);
+        setStatus(`Switch to ${CHAINS[e.chainId]?.name ?? `chain ${e.chainId}`} to open this Safe`, "warn", true);
+      }
+    }
+    document.getElementById("install-title")?.scrollIntoView({ behavior: "smooth" });
+  }
+
+  // Connected wallet (for the beneficiary view)
+  const account = useWalletAccount();
+
+  // Address-book labels follow the current network
+  useEffect(() => setActiveBookChain(chainId), [chainId]);
+
   return (
     <div className="relative min-h-screen text-neutral-100 bg-neutral-950">
       {/* Background: heart-on-shield */}
@@ -320,8 +357,38 @@ export default function App() {
       <AppHeader safeAddr={safeAddr} />
 
       <main className="relative z-10 max-w-5xl mx-auto px-4 pt-6 pb-12 space-y-6">
+        <ConfigIssues />
+
         <ModuleIntro />
 
+        {heirProof && (
+          <HeirProofSigner
+            challenge={heirProof}
+            account={account}
+            onClose={() => setHeirProof(null)}
+          />
+        )}
+
+        {!isInSafe && FEATURES.portfolio && (
+          <PortfolioDashboard
+            currentSafe={safeAddr}
+            currentChainId={chainId}
+            onOpen={openWatched}
+          />
+        )}
+
+        {!isInSafe && FEATURES.inheritedSafes && account && (
+          <InheritedSafes
+            account={account}
+            walletChainId={chainId}
+            onOpen={(cid, safe) => openWatched({ chainId: cid, safe, label: "" })}
+          />
+        )}
+
+        <AddressBookPanel chainId={chainId} />
+
+        <TransactionsPanel />
+
         {/* Configuration / prediction */}
         <section
           className="rounded-2xl bg-neutral-900/70 border border-neutral-800 p-4 space-y-3"
@@ -334,18 +401,18 @@ export default function App() {
           {/* Safe address input (read-only in Safe iframe) */}
           <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
             <div className="flex-1 flex items-center gap-2">
-              <input
+              <AddressInput
                 className={`w-full sm:max-w-xl px-3 py-2 rounded bg-neutral-800 ${
                   isInSafe ? "opacity-70 cursor-not-allowed" : ""
                 }`}
-                placeholder="0x… Safe address"
+                placeholder="0x… Safe address or ENS name"
                 value={safeAddr}
-                onChange={(e) => setSafeAddr(e.target.value.trim())}
+                onChange={setSafeAddr}
                 readOnly={isInSafe}
                 title={
                   isInSafe
                     ? "Using Safe selected in the Safe app"
-                    : "Enter a Safe address"
+                    : "Enter a Safe address or ENS name"
                 }
               />
               {isInSafe && (
@@ -371,6 +438,7 @@ export default function App() {
             ) : (
               <span>Network: Unknown</span>
             )}
+            <RpcStatus source={safeEip1193 ? "safe" : walletProvider ? "wallet" : "public"} chainId={chainId} />
             {safeCheck.status === "ok" && (
               <span className="text-xs px-2 py-1 rounded bg-emerald-900/30 border border-emerald-800 text-emerald-200">
                 Safe verified{safeCheck.version ? ` · v${safeCheck.version}` : ""} ·{" "}
@@ -410,11 +478,14 @@ export default function App() {
                 readProvider={readProvider as any}
                 isDeployed={Boolean(deployed)}
                 isEnabled={Boolean(enabled)}
+                chainId={chainId}
+                threshold={safeCheck.threshold}
                 onChanged={async () => {
                   // After a deploy/enable tx, re-check with a new scope
                   bumpScope();
                   await refreshInstallState();
                 }}
+                onCollectSignatures={setBundle}
               />
             )}
 
@@ -426,6 +497,15 @@ export default function App() {
             </div>
           )}
 
+          {safeCheck.status === "ok" && enabled === true && readProvider && chainId != null && predicted && (
+            <UninstallModule
+              safeAddr={safeAddr}
+              moduleAddr={predicted}
+              readProvider={readProvider}
+              chainId={chainId}
+            />
+          )}
+
           {safeCheck.status !== "ok" && (
             <div className="text-sm text-neutral-400">
               Enter a valid Safe address on this network to deploy or manage the
@@ -434,6 +514,20 @@ export default function App() {
           )}
         </section>
 
+        {bundle && (
+          <SignatureCollector
+            bundle={bundle}
+            readProvider={readProvider}
+            chainId={chainId}
+            onChange={setBundle}
+            onClose={() => setBundle(null)}
+            onExecuted={async () => {
+              bumpScope();
+              await refreshInstallState();
+            }}
+          />
+        )}
+
         {/* Owners & Heirs — render only when Safe is validated */}
         {safeCheck.status === "ok" && (
           <OwnersView
@@ -443,10 +537,9 @@ export default function App() {
             readProvider={readProvider as any}
             enabled={Boolean(enabled)}
             chainId={chainId}
+            factoryAddr={normalizedFactory}
           />
         )}
-
-        <StatusBar text={status} />
       </main>
 
       <AppFooter showAiCredit={true} />
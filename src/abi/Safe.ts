@@ -2,9 +2,14 @@ export const SafeABI = [
   "function getOwners() view returns (address[])",
   // Safe v1.3+: pagination over module list
   "function getModulesPaginated(address start, uint256 pageSize) view returns (address[] array, address next)",
+  "function isModuleEnabled(address module) view returns (bool)",
   "function isOwner(address) view returns (bool)",
+  "function getThreshold() view returns (uint256)",
+  "function nonce() view returns (uint256)",
+  "function VERSION() view returns (string)",
   // shown only for calldata building (owners will execute via Safe UI)
-  "function enableModule(address module)"
+  "function enableModule(address module)",
+  "function disableModule(address prevModule, address module)"
 ] as const;
 
 export const SENTINEL = "0x0000000000000000000000000000000000000001";
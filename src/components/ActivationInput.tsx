@@ -0,0 +1,118 @@
+// src/components/ActivationInput.tsx
+import { useState } from "react";
+import {
+  PRESETS,
+  UNIT_LABEL,
+  checkActivation,
+  durationToLocalInput,
+  fmtDuration,
+  type ActivationPolicy,
+  type Duration,
+  type DurationUnit,
+} from "../lib/activation";
+import { fmtUTC, localInputToUtcSeconds } from "../lib/time";
+
+type Props = {
+  mode: "set" | "prolong";
+  value: string; // datetime-local value
+  current: bigint; // on-chain activation (0 when unset)
+  policy: ActivationPolicy;
+  nowSec: number;
+  timeZone?: string; // IANA zone for entry; browser local when omitted
+  onChange: (v: string) => void;
+};
+
+/** datetime-local plus duration presets / custom "N units from …" and an on-chain preview. */
+export default function ActivationInput({ mode, value, current, policy, nowSec, timeZone, onChange }: Props) {
+  const canExtend = mode === "prolong" && current !== 0n;
+  const [base, setBase] = useState<"now" | "current">(canExtend ? "current" : "now");
+  const [custom, setCustom] = useState<Duration>({ n: 1, unit: "y" });
+
+  const baseSec = base === "current" && canExtend ? Number(current) : Math.floor(Date.now() / 1000);
+  const apply = (d: Duration) => onChange(durationToLocalInput(baseSec, d, timeZone));
+
+  let ts: number | null = null;
+  try {
+    ts = value ? localInputToUtcSeconds(value, timeZone) : null;
+  } catch {
+    ts = null;
+  }
+  const issue = ts != null ? checkActivation(ts, nowSec, policy) : null;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-col gap-1">
+        <label className="text-xs opacity-70">Activation ({timeZone ?? "local"})</label>
+        <input
+          type="datetime-local"
+          className="px-3 py-2 rounded bg-neutral-800"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5 text-xs">
+        {canExtend && (
+          <select
+            className="h-7 rounded bg-neutral-800 px-2"
+            value={base}
+            onChange={(e) => setBase(e.target.value as "now" | "current")}
+            title="Count the duration from…"
+          >
+            <option value="current">from current activation</option>
+            <option value="now">from now</option>
+          </select>
+        )}
+        {PRESETS.map((d) => (
+          <button
+            key={fmtDuration(d)}
+            type="button"
+            className="px-2 py-1 rounded-full bg-neutral-800 hover:bg-neutral-700"
+            onClick={() => apply(d)}
+          >
+            +{fmtDuration(d)}
+          </button>
+        ))}
+        <span className="opacity-50 mx-1">or</span>
+        <input
+          type="number"
+          min={1}
+          className="w-14 px-1 py-0.5 rounded bg-neutral-800"
+          value={custom.n}
+          onChange={(e) => setCustom((c) => ({ ...c, n: Math.max(1, Math.floor(Number(e.target.value) || 1)) }))}
+        />
+        <select
+          className="h-7 rounded bg-neutral-800 px-2"
+          value={custom.unit}
+          onChange={(e) => setCustom((c) => ({ ...c, unit: e.target.value as DurationUnit }))}
+        >
+          {(Object.keys(UNIT_LABEL) as DurationUnit[]).map((u) => (
+            <option key={u} value={u}>
+              {UNIT_LABEL[u]}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className="px-2 py-1 rounded bg-neutral-800 hover:bg-neutral-700"
+          onClick={() => apply(custom)}
+        >
+          Apply
+        </button>
+      </div>
+
+      {ts != null && (
+        <div className="text-[11px] opacity-80">
+          Writes <span className="font-mono">activationTime = {ts}</span>{" "}
+          <span className="opacity-70">({fmtUTC(BigInt(ts))})</span>
+        </div>
+      )}
+      {issue && (
+        <div className={`text-[11px] ${issue.level === "block" ? "text-rose-300" : "text-amber-300"}`}>
+          {issue.level === "block" ? "⛔ " : "⚠ "}
+          {issue.msg}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,7 @@
 import { useState } from "react";
+import { useEnsName } from "../lib/useEns";
+import { setLabel, useAddressBook, getLabel } from "../lib/addressBook";
+import { explorerAddressUrl, explorerTxUrl } from "../lib/links";
 
 export default function Address({
   addr,
@@ -6,14 +9,32 @@ export default function Address({
   start = 6,           // show "0x1234" (0x + 4 hex)
   end = 4,             // show "5678"
   variant = "pill",    // "pill" (bg) or "ghost" (minimal)
+  ens = true,          // show reverse ENS name/avatar when set
+  chainId,             // address-book + explorer network (defaults to the active one)
+  explorer = true,     // "open in explorer" link when the network has one
 }: {
   addr: string;
   className?: string;
   start?: number;
   end?: number;
   variant?: "pill" | "ghost";
+  ens?: boolean;
+  chainId?: number | null;
+  explorer?: boolean;
 }) {
+  // Also used for tx hashes (History): those link to /tx/ and skip ENS and labels
+  const isTx = /^0x[0-9a-fA-F]{64}$/.test(addr ?? "");
   const [copied, setCopied] = useState(false);
+  const name = useEnsName(addr, ens && !isTx);
+  const { activeChainId } = useAddressBook();
+  const bookChain = chainId ?? activeChainId;
+  const label = isTx ? null : getLabel(bookChain, addr);
+  const explorerUrl =
+    explorer && bookChain != null
+      ? isTx
+        ? explorerTxUrl(bookChain, addr)
+        : explorerAddressUrl(bookChain, addr)
+      : null;
 
   if (!addr || addr === "0x0000000000000000000000000000000000000000") {
     return <span className={className}>—</span>;
@@ -35,6 +56,12 @@ export default function Address({
     }
   }
 
+  function editLabel() {
+    if (bookChain == null) return;
+    const v = prompt(`Label for ${addr}`, label ?? name?.name ?? "");
+    if (v != null) setLabel(bookChain, addr, v);
+  }
+
   const baseBtn =
     "inline-flex items-center gap-1 rounded px-2 py-1 text-xs break-all transition-colors";
   const styles =
@@ -44,7 +71,19 @@ export default function Address({
 
   // container is relative so the "(copied)" bubble can be absolutely positioned on top
   return (
-    <span className={`relative inline-block ${className}`} title={addr}>
+    <span
+      className={`group relative inline-block ${className}`}
+      title={[
+        label,
+        name &&
+          (name.verified
+            ? name.name
+            : `${name.name} (unverified: the name does not resolve back to this address)`),
+        addr,
+      ]
+        .filter(Boolean)
+        .join("\n")}
+    >
       <button
         type="button"
         onClick={copy}
@@ -52,9 +91,42 @@ export default function Address({
         aria-label={`Copy ${addr}`}
         className={`${baseBtn} ${styles}`}
       >
-        <span>{short}</span>
+        {name?.avatar && (
+          <img src={name.avatar} alt="" className="h-4 w-4 rounded-full object-cover" />
+        )}
+        {label && <span className="text-sky-200">{label}</span>}
+        {name && !label && (
+          <span className={name.verified ? "text-neutral-100" : "text-amber-300"}>
+            {name.name}
+            {!name.verified && " ⚠"}
+          </span>
+        )}
+        <span className={name || label ? "opacity-60" : ""}>{short}</span>
         <span className="opacity-70">⧉</span>
       </button>
+      {explorerUrl && (
+        <a
+          href={explorerUrl}
+          target="_blank"
+          rel="noreferrer"
+          aria-label={`Open ${addr} in block explorer`}
+          title="Open in explorer"
+          className="ml-0.5 rounded px-1 py-1 text-xs opacity-40 group-hover:opacity-80 focus:opacity-100 hover:bg-neutral-800/60"
+        >
+          ↗
+        </a>
+      )}
+      {bookChain != null && !isTx && (
+        <button
+          type="button"
+          onClick={editLabel}
+          aria-label={label ? `Edit label for ${addr}` : `Add label for ${addr}`}
+          title={label ? "Edit label" : "Add label"}
+          className="ml-0.5 rounded px-1 py-1 text-xs opacity-0 group-hover:opacity-70 focus:opacity-100 hover:bg-neutral-800/60"
+        >
+          ✎
+        </button>
+      )}
 
       {/* Floating copied bubble (no layout shift) */}
       {copied && (
@@ -0,0 +1,180 @@
+// src/components/AddressBookPanel.tsx
+import { useRef, useState } from "react";
+import { ethers } from "ethers";
+import Address from "./Address";
+import AddressInput from "./AddressInput";
+import { CHAINS, SUPPORTED_CHAIN_IDS } from "../config/chains";
+import { downloadText } from "../lib/download";
+import {
+  importEntries,
+  parseCsv,
+  parseJson,
+  setLabel,
+  toCsv,
+  toJson,
+  useAddressBook,
+} from "../lib/addressBook";
+import { errorMessage } from "../lib/errors";
+import { notifier } from "../lib/notifications";
+
+type Props = {
+  chainId: number | null; // current network (default scope)
+};
+
+const chainName = (id: number) => CHAINS[id]?.name ?? `Chain ${id}`;
+
+/** Local labels for addresses, per network; Safe{Wallet} CSV and JSON import/export. */
+export default function AddressBookPanel({ chainId }: Props) {
+  const note = notifier("Address book");
+
+  const { entries } = useAddressBook();
+  const [scope, setScope] = useState<number | "all">(chainId ?? "all");
+  const [draft, setDraft] = useState({ address: "", name: "" });
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const addChain = scope === "all" ? chainId : scope;
+  const shown = entries
+    .filter((e) => scope === "all" || e.chainId === scope)
+    .sort((a, b) => a.chainId - b.chainId || a.name.localeCompare(b.name));
+
+  function add() {
+    if (addChain == null) return note("Pick a network first", "warn");
+    if (!ethers.isAddress(draft.address)) return note("Enter a valid address or ENS name", "warn");
+    if (!draft.name.trim()) return note("Enter a label", "warn");
+    setLabel(addChain, draft.address, draft.name);
+    setDraft({ address: "", name: "" });
+  }
+
+  async function onImport(file: File) {
+    try {
+      const text = await file.text();
+      const fallback = scope === "all" ? chainId : scope;
+      const list = /\.json$/i.test(file.name) || text.trim().startsWith("{") || text.trim().startsWith("[")
+        ? parseJson(text, fallback)
+        : parseCsv(text, fallback);
+      const n = importEntries(list);
+      note(`Imported ${n} of ${list.length} entr${list.length !== 1 ? "ies" : "y"}`, n > 0 ? "success" : "warn");
+    } catch (e) {
+      note(errorMessage(e, "Import failed"), "error");
+    } finally {
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  }
+
+  function exportAs(kind: "csv" | "json") {
+    const suffix = scope === "all" ? "all" : String(scope);
+    if (kind === "csv") {
+      downloadText(`heirsafe-address-book-${suffix}.csv`, toCsv(shown), "text/csv;charset=utf-8");
+    } else {
+      downloadText(`heirsafe-address-book-${suffix}.json`, toJson(shown), "application/json");
+    }
+  }
+
+  return (
+    <details className="rounded-2xl bg-neutral-900/70 border border-neutral-800">
+      <summary className="list-none cursor-pointer select-none px-4 py-3 flex items-center justify-between">
+        <span className="font-medium">
+          Address book{entries.length ? ` · ${entries.length}` : ""}
+        </span>
+        <span>▼</span>
+      </summary>
+
+      <div className="px-4 pb-4 space-y-3 text-sm">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            className="h-9 rounded bg-neutral-800 px-3 text-sm"
+            value={scope}
+            onChange={(e) => setScope(e.target.value === "all" ? "all" : Number(e.target.value))}
+          >
+            <option value="all">All networks</option>
+            {SUPPORTED_CHAIN_IDS.map((id) => (
+              <option key={id} value={id}>
+                {chainName(id)}
+              </option>
+            ))}
+          </select>
+          <button
+            className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700 text-xs"
+            onClick={() => fileRef.current?.click()}
+          >
+            Import CSV / JSON
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && onImport(e.target.files[0])}
+          />
+          <button
+            className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700 text-xs disabled:opacity-50"
+            onClick={() => exportAs("csv")}
+            disabled={!shown.length}
+            title="Safe{Wallet} address book format"
+          >
+            Export CSV
+          </button>
+          <button
+            className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700 text-xs disabled:opacity-50"
+            onClick={() => exportAs("json")}
+            disabled={!shown.length}
+          >
+            Export JSON
+          </button>
+        </div>
+
+        {shown.length > 0 ? (
+          <ul className="divide-y divide-neutral-800">
+            {shown.map((e) => (
+              <li key={`${e.chainId}:${e.address}`} className="py-1.5 flex flex-wrap items-center gap-2">
+                <input
+                  className="w-40 px-2 py-1 rounded bg-transparent hover:bg-neutral-800 focus:bg-neutral-800"
+                  defaultValue={e.name}
+                  onBlur={(ev) => ev.target.value.trim() && setLabel(e.chainId, e.address, ev.target.value)}
+                />
+                <Address addr={e.address} variant="ghost" chainId={e.chainId} />
+                {scope === "all" && <span className="text-xs opacity-60">{chainName(e.chainId)}</span>}
+                <button
+                  className="ml-auto px-2 py-1 rounded bg-neutral-800 hover:bg-rose-800 text-xs"
+                  onClick={() => setLabel(e.chainId, e.address, "")}
+                  title="Remove label"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="text-neutral-400">
+            No labels{scope === "all" ? "" : ` on ${chainName(scope)}`} yet. Hover any address and
+            click ✎ to add one.
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-start">
+          <input
+            className="px-3 py-2 rounded bg-neutral-800 sm:w-40"
+            placeholder="Label"
+            value={draft.name}
+            onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))}
+          />
+          <AddressInput
+            className="w-full px-3 py-2 rounded bg-neutral-800"
+            placeholder="0x… address or ENS name"
+            value={draft.address}
+            onChange={(v) => setDraft((d) => ({ ...d, address: v }))}
+          />
+          <button
+            className="px-3 py-2 rounded bg-emerald-700 hover:bg-emerald-600 disabled:opacity-50"
+            onClick={add}
+            disabled={addChain == null}
+            title={addChain != null ? `Add to ${chainName(addChain)}` : "Pick a network"}
+          >
+            Add
+          </button>
+        </div>
+
+      </div>
+    </details>
+  );
+}
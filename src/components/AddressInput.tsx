@@ -0,0 +1,96 @@
+// src/components/AddressInput.tsx
+import { useEffect, useRef, useState } from "react";
+import { ethers } from "ethers";
+import { looksLikeEnsName, resolveEnsName } from "../lib/ens";
+import { useLatest } from "../lib/useLatest";
+
+type Props = {
+  value: string;
+  /** Raw text for hex input; the resolved address once an ENS name resolves. */
+  onChange: (v: string) => void;
+  placeholder?: string;
+  className?: string;
+  readOnly?: boolean;
+  title?: string;
+};
+
+/** Text input that accepts 0x addresses or ENS names (resolved via mainnet). */
+export default function AddressInput({ value, onChange, placeholder, className = "", readOnly, title }: Props) {
+  const [text, setText] = useState(value);
+  const [hint, setHint] = useState<null | { kind: "ok" | "pending" | "error"; msg: string }>(null);
+  const emitted = useRef(value);
+
+  // Value changed from outside (e.g. Safe picked elsewhere) → show it
+  useEffect(() => {
+    if (value !== emitted.current) {
+      emitted.current = value;
+      setText(value);
+      setHint(null);
+    }
+  }, [value]);
+
+  function emit(v: string) {
+    emitted.current = v;
+    onChange(v);
+  }
+
+  // The resolver below outlives renders; it must reach the current onChange without restarting
+  const onChangeRef = useLatest(onChange);
+
+  useEffect(() => {
+    const v = text.trim();
+    if (!looksLikeEnsName(v)) {
+      setHint(null);
+      return;
+    }
+    let stop = false;
+    setHint({ kind: "pending", msg: "Resolving…" });
+    const id = setTimeout(async () => {
+      const addr = await resolveEnsName(v);
+      if (stop) return;
+      if (addr) {
+        setHint({ kind: "ok", msg: addr });
+        emitted.current = addr;
+        onChangeRef.current(addr);
+      } else {
+        setHint({ kind: "error", msg: "ENS name not found" });
+      }
+    }, 300);
+    return () => {
+      stop = true;
+      clearTimeout(id);
+    };
+  }, [text, onChangeRef]);
+
+  return (
+    <div className="flex flex-col gap-1 w-full">
+      <input
+        className={className}
+        placeholder={placeholder}
+        value={text}
+        readOnly={readOnly}
+        title={title}
+        spellCheck={false}
+        onChange={(e) => {
+          const v = e.target.value.trim();
+          setText(v);
+          // hex (or anything non-ENS) passes straight through; names emit once resolved
+          emit(looksLikeEnsName(v) ? "" : v);
+        }}
+      />
+      {hint && (
+        <span
+          className={`text-[11px] break-all ${
+            hint.kind === "ok"
+              ? "text-emerald-300"
+              : hint.kind === "error"
+              ? "text-rose-300"
+              : "text-neutral-400"
+          }`}
+        >
+          {hint.kind === "ok" ? `→ ${ethers.getAddress(hint.msg)}` : hint.msg}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import NetworkSwitcher from "./NetworkSwitcher";
 import { ConnectButton } from "./ConnectButton";
 import Address from "./Address";
 import Logo from "./Logo";
+import NotificationCenter from "./NotificationCenter";
 
 export default function AppHeader({
   safeAddr,
@@ -23,6 +24,7 @@ export default function AppHeader({
           {safeAddr && <Address addr={safeAddr} />}
         </div>
         <div className="flex items-center gap-3">
+          <NotificationCenter />
           <NetworkSwitcher />
           {/* wallet address pill (hide if unknown) */}
           {walletAddr ? <Address addr={walletAddr} /> : null}
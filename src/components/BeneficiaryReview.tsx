@@ -0,0 +1,45 @@
+// src/components/BeneficiaryReview.tsx
+import type { BeneficiaryIssue } from "../lib/beneficiaryChecks";
+
+type Props = {
+  issues: BeneficiaryIssue[] | null; // null while checking
+  acknowledged: boolean;
+  onAcknowledge: (v: boolean) => void;
+};
+
+const tone: Record<BeneficiaryIssue["level"], string> = {
+  block: "bg-rose-900/30 border-rose-800 text-rose-200",
+  warn: "bg-amber-900/30 border-amber-800 text-amber-200",
+  info: "bg-neutral-900/60 border-neutral-800 text-neutral-300",
+};
+
+/** Risk review shown under the beneficiary input in the "Set" row. */
+export default function BeneficiaryReview({ issues, acknowledged, onAcknowledge }: Props) {
+  if (issues == null) return <div className="text-xs text-neutral-400">Checking beneficiary…</div>;
+  if (issues.length === 0) return <div className="text-xs text-emerald-300">No issues found.</div>;
+
+  const blocked = issues.some((i) => i.level === "block");
+  const warned = issues.some((i) => i.level === "warn");
+
+  return (
+    <div className="space-y-1 max-w-xl">
+      {issues.map((i) => (
+        <div key={i.code} className={`text-xs px-2 py-1 rounded border ${tone[i.level]}`}>
+          {i.level === "block" ? "⛔ " : i.level === "warn" ? "⚠ " : ""}
+          {i.msg}
+        </div>
+      ))}
+      {!blocked && warned && (
+        <label className="flex items-center gap-2 text-xs select-none">
+          <input
+            type="checkbox"
+            className="accent-amber-500"
+            checked={acknowledged}
+            onChange={(e) => onAcknowledge(e.target.checked)}
+          />
+          I have double-checked this address
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+// src/components/CalendarExport.tsx
+import { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { buildActivationCalendar, parseReminderDays } from "../lib/ics";
+import { safeDeepLink } from "../lib/links";
+import { downloadText } from "../lib/download";
+
+type Props = {
+  safeAddr: string;
+  chainName?: string;
+  rows: { owner: string; beneficiary: string; ts: bigint }[];
+};
+
+const LS_KEY = "heirsafe:icsReminders";
+
+/** Download an .ics with each owner's activation time and "prolong" reminders. */
+export default function CalendarExport({ safeAddr, chainName, rows }: Props) {
+  const [reminders, setReminders] = useState<string>(() => {
+    try {
+      return localStorage.getItem(LS_KEY) || "30, 7, 1";
+    } catch {
+      return "30, 7, 1";
+    }
+  });
+  useEffect(() => {
+    try {
+      localStorage.setItem(LS_KEY, reminders);
+    } catch {
+      /* storage blocked: reminders just don't persist */
+    }
+  }, [reminders]);
+
+  const items = rows.filter((r) => r.ts !== 0n && r.beneficiary !== ethers.ZeroAddress);
+
+  function download() {
+    const url = safeDeepLink(safeAddr);
+    const ics = buildActivationCalendar(
+      items.map((r) => ({ ...r, safe: safeAddr, chainName, url })),
+      parseReminderDays(reminders)
+    );
+    downloadText(
+      `heirsafe-${safeAddr.slice(2, 8).toLowerCase()}.ics`,
+      ics,
+      "text/calendar;charset=utf-8"
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <label className="opacity-70" htmlFor="ics-reminders">
+        Remind (days before)
+      </label>
+      <input
+        id="ics-reminders"
+        className="w-24 px-2 py-1 rounded bg-neutral-800"
+        value={reminders}
+        onChange={(e) => setReminders(e.target.value)}
+        placeholder="30, 7, 1"
+      />
+      <button
+        className="px-2 py-1 rounded bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50"
+        onClick={download}
+        disabled={items.length === 0}
+        title={items.length ? "Download calendar (.ics)" : "No activation times set"}
+      >
+        Export .ics
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+// src/components/ClaimPreview.tsx
+import Address from "./Address";
+import type { ClaimPreview as Preview } from "../lib/claim";
+
+type Props = {
+  owner: string;
+  heir: string;
+  preview: Preview | null; // null while loading
+  error?: string;
+  busy?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+};
+
+const eq = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/** Post-claim owner set + threshold analysis, shown before the heir sends claimSafe. */
+export default function ClaimPreview({ owner, heir, preview, error, busy, onConfirm, onCancel }: Props) {
+  if (error || !preview) {
+    return (
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className={error ? "text-rose-300" : "text-neutral-400"}>
+          {error || "Preparing claim preview…"}
+        </span>
+        <button className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700" onClick={onCancel}>
+          Close
+        </button>
+      </div>
+    );
+  }
+
+  const { after, threshold, heirSeats, heirAlreadyOwner, simulation } = preview;
+  const soleControl = heirSeats >= threshold;
+  const needed = Math.max(0, threshold - heirSeats);
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="font-medium">Claim preview</div>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <div>
+          <div className="text-xs opacity-70 mb-1">Owners after claim ({after.length})</div>
+          <ul className="space-y-1">
+            {after.map((o, i) => (
+              <li key={`${o}:${i}`} className="flex items-center gap-2">
+                <Address addr={o} variant="ghost" />
+                {eq(o, heir) && (
+                  <span className="text-[11px] px-1.5 py-0.5 rounded bg-amber-900/40 text-amber-200">
+                    {eq(preview.owners[i], owner) ? `you (replaces ${owner.slice(0, 6)}…)` : "you"}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="space-y-2">
+          <div>
+            <div className="text-xs opacity-70">Threshold</div>
+            <div>
+              {threshold} of {after.length} owners
+            </div>
+          </div>
+          <div
+            className={`text-xs px-2 py-1 rounded border ${
+              soleControl
+                ? "bg-emerald-900/30 border-emerald-800 text-emerald-200"
+                : "bg-neutral-900/60 border-neutral-800"
+            }`}
+          >
+            {soleControl
+              ? "You will be able to execute Safe transactions on your own."
+              : `You will hold ${heirSeats} of the ${threshold} required signatures — ${needed} more co-owner${
+                  needed !== 1 ? "s" : ""
+                } must sign any Safe transaction.`}
+          </div>
+          {heirAlreadyOwner && (
+            <div className="text-xs px-2 py-1 rounded border bg-rose-900/30 border-rose-800 text-rose-200">
+              Your address is already an owner of this Safe. The Safe's <code>swapOwner</code> reverts
+              with GS204, so this claim cannot succeed from this address.
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className={`text-xs ${simulation.ok ? "text-emerald-300" : "text-rose-300"}`}>
+        {simulation.ok ? "Simulation: claim would succeed." : `Simulation: ${simulation.error}`}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          className="px-3 py-2 rounded bg-amber-700 hover:bg-amber-600 disabled:opacity-50"
+          onClick={onConfirm}
+          disabled={busy || !simulation.ok}
+        >
+          {busy ? "Claiming…" : "Confirm claim"}
+        </button>
+        <button className="px-3 py-2 rounded bg-neutral-800 hover:bg-neutral-700" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
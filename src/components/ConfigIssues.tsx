@@ -0,0 +1,30 @@
+// src/components/ConfigIssues.tsx
+import { getConfigIssues, getConfigSource } from "../config/runtime";
+
+/** Problems found in the deployment's config.json; the affected values fall back to build-time defaults. */
+export default function ConfigIssues() {
+  const issues = getConfigIssues();
+  if (!issues.length) return null;
+
+  return (
+    <div className="rounded-2xl border border-amber-800 bg-amber-950/30 p-4 text-sm space-y-2" role="alert">
+      <div className="font-medium text-amber-200">
+        config.json has {issues.length} problem{issues.length !== 1 ? "s" : ""}
+      </div>
+      <ul className="space-y-1 text-xs">
+        {issues.map((i) => (
+          <li key={`${i.path}:${i.message}`}>
+            {i.path && <span className="font-mono text-amber-300">{i.path}</span>}
+            {i.path && ": "}
+            {i.message}
+          </li>
+        ))}
+      </ul>
+      <div className="text-xs opacity-70">
+        {getConfigSource() === "file"
+          ? "The listed values were ignored; built-in or build-time (VITE_*) defaults apply instead."
+          : "Running on built-in and build-time (VITE_*) defaults."}
+      </div>
+    </div>
+  );
+}
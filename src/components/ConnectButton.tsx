@@ -1,18 +1,19 @@
+import { useState } from "react";
 import { useAccount, useConnect, useDisconnect } from "wagmi";
+import Address from "./Address";
 
-function short(addr?: string) {
-  return addr ? `${addr.slice(0, 6)}…${addr.slice(-4)}` : "";
-}
-
+/** The app's single wallet entry point: pick any configured wagmi connector (injected, WalletConnect, Coinbase). */
 export function ConnectButton() {
-  const { address, isConnected } = useAccount();
-  const { connectors, connect, status } = useConnect();
+  const { address, isConnected, connector: active } = useAccount();
+  const { connectors, connect, status, error, variables } = useConnect();
   const { disconnect } = useDisconnect();
+  const [open, setOpen] = useState(false);
 
   if (isConnected) {
     return (
       <div className="flex items-center gap-2 text-sm">
-        <span className="px-2 py-1 rounded bg-neutral-800">{short(address)}</span>
+        {address && <Address addr={address} />}
+        {active && <span className="text-xs opacity-60">{active.name}</span>}
         <button
           className="px-2 py-1 rounded bg-neutral-800 hover:bg-neutral-700"
           onClick={() => disconnect()}
@@ -23,24 +24,48 @@ export function ConnectButton() {
     );
   }
 
-  // Choose a preferred connector (Injected > WalletConnect > Coinbase)
-  const injected = connectors.find(c => c.name.toLowerCase().includes("injected") || c.name.toLowerCase().includes("metamask") || c.name.toLowerCase().includes("rabby"));
-  const walletConnect = connectors.find(c => c.name.toLowerCase().includes("walletconnect"));
-  const coinbase = connectors.find(c => c.name.toLowerCase().includes("coinbase"));
+  // EIP-6963 discovery can list the same wallet next to the generic injected connector
+  const seen = new Set<string>();
+  const choices = connectors.filter((c) => {
+    const k = c.name.toLowerCase();
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
 
-  function handleConnect() {
-    const preferred = injected ?? walletConnect ?? coinbase ?? connectors[0];
-    if (!preferred) return;
-    connect({ connector: preferred });
-  }
+  const pending = status === "pending";
+  // connect() also accepts a connector factory; only instantiated connectors carry a name
+  const connecting = variables?.connector && typeof variables.connector !== "function" ? variables.connector.name : "";
 
   return (
-    <button
-      className="px-4 py-2 rounded bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50"
-      onClick={handleConnect}
-      disabled={status === "pending" || connectors.length === 0}
-    >
-      {status === "pending" ? "Connecting…" : "Connect"}
-    </button>
+    <div className="relative">
+      <button
+        className="px-4 py-2 rounded bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50"
+        onClick={() => setOpen((o) => !o)}
+        disabled={pending || choices.length === 0}
+      >
+        {pending ? `Connecting${connecting ? ` · ${connecting}` : ""}…` : "Connect"}
+      </button>
+
+      {open && !pending && (
+        <div className="absolute right-0 z-20 mt-2 w-56 rounded-xl border border-neutral-800 bg-neutral-900 p-1 shadow-lg">
+          {choices.map((c) => (
+            <button
+              key={c.uid}
+              className="w-full flex items-center gap-2 text-left px-3 py-2 rounded hover:bg-neutral-800 text-sm"
+              onClick={() => {
+                setOpen(false);
+                connect({ connector: c });
+              }}
+            >
+              {c.icon && <img src={c.icon} alt="" className="w-4 h-4" />}
+              {c.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && !pending && <div className="absolute right-0 mt-1 text-xs text-rose-400 whitespace-nowrap">{error.message}</div>}
+    </div>
   );
 }
@@ -0,0 +1,117 @@
+// src/components/HeirProofSigner.tsx
+import { useState } from "react";
+import Address from "./Address";
+import { CHAINS } from "../config/chains";
+import { challengeAgeIssue, challengeMessage, type KeyChallenge } from "../lib/keyProof";
+import { notifier } from "../lib/notifications";
+import { errorMessage } from "../lib/errors";
+import { getWalletSigner } from "../wallet/ethers";
+
+type Props = {
+  challenge: KeyChallenge;
+  account: string; // connected wallet
+  onClose: () => void;
+};
+
+/** Heir side of the handshake, opened from a `#heir-proof=` link. */
+export default function HeirProofSigner({ challenge, account, onClose }: Props) {
+  const note = notifier("Key-control proof", { safe: challenge.safe, owner: challenge.owner, chainId: challenge.chainId });
+
+  const [signature, setSignature] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const message = challengeMessage(challenge);
+  const isBeneficiary = !!account && account.toLowerCase() === challenge.beneficiary.toLowerCase();
+
+  async function sign() {
+    try {
+      setBusy(true);
+      const signer = await getWalletSigner();
+      setSignature(await signer.signMessage(message));
+    } catch (e) {
+      note(errorMessage(e, "Signing failed"), "error");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function copy() {
+    try {
+      await navigator.clipboard.writeText(signature);
+      note("Signature copied — send it back to the owner", "success");
+    } catch {
+      note("Can't copy signature", "error");
+    }
+  }
+
+  return (
+    <section
+      className="rounded-2xl bg-neutral-900/70 border border-sky-800 p-4 space-y-3"
+      aria-labelledby="heir-proof-title"
+    >
+      <div className="flex items-start justify-between gap-3">
+        <h2 id="heir-proof-title" className="font-semibold">
+          Prove you control the beneficiary address
+        </h2>
+        <button className="text-xs px-2 py-1 rounded bg-neutral-800 hover:bg-neutral-700" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      <div className="text-sm space-y-1">
+        <div>
+          Owner <Address addr={challenge.owner} variant="ghost" chainId={challenge.chainId} /> of Safe{" "}
+          <Address addr={challenge.safe} variant="ghost" chainId={challenge.chainId} /> on{" "}
+          {CHAINS[challenge.chainId]?.name ?? `chain ${challenge.chainId}`} wants to name{" "}
+          <Address addr={challenge.beneficiary} chainId={challenge.chainId} /> as heir.
+        </div>
+        <div className="opacity-70 text-xs">
+          Signing costs nothing and sends no transaction. If the beneficiary is a contract wallet
+          (e.g. a Safe), sign this message in that wallet's app instead and send the resulting
+          signature.
+        </div>
+      </div>
+
+      <pre className="text-xs whitespace-pre-wrap break-all rounded bg-neutral-950/60 border border-neutral-800 p-3">
+        {message}
+      </pre>
+
+      {challengeAgeIssue(challenge) && (
+        <div className="text-sm text-amber-300">
+          This challenge has {challengeAgeIssue(challenge) === "expired" ? "expired" : "an invalid date"}; the owner
+          will not accept a signature over it. Ask them for a new link.
+        </div>
+      )}
+
+      {!account ? (
+        <div className="text-sm text-amber-300">Connect the beneficiary wallet to sign.</div>
+      ) : !isBeneficiary ? (
+        <div className="text-sm text-amber-300">
+          Connected wallet <Address addr={account} variant="ghost" /> is not the beneficiary. Switch
+          accounts — a signature from another address will be rejected.
+        </div>
+      ) : null}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          className="px-3 py-2 rounded bg-sky-700 hover:bg-sky-600 disabled:opacity-50"
+          onClick={sign}
+          disabled={busy || !isBeneficiary}
+        >
+          {busy ? "Signing…" : "Sign message"}
+        </button>
+        {signature && (
+          <button className="px-3 py-2 rounded bg-neutral-800 hover:bg-neutral-700" onClick={copy}>
+            Copy signature
+          </button>
+        )}
+      </div>
+
+      {signature && (
+        <div className="text-xs font-mono break-all rounded bg-neutral-950/60 border border-neutral-800 p-2">
+          {signature}
+        </div>
+      )}
+    </section>
+  );
+}
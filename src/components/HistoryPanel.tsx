@@ -0,0 +1,198 @@
+// src/components/HistoryPanel.tsx
+import { useMemo, useRef, useState } from "react";
+import { ethers } from "ethers";
+import Address from "./Address";
+import { fmtLocal, fmtUTC } from "../lib/time";
+import { scanLogsBackward } from "../lib/logs";
+import { errorMessage } from "../lib/errors";
+import {
+  decodeHistory,
+  findDeployBlock,
+  historyFilter,
+  withTimestamps,
+  type HistoryEntry,
+} from "../lib/heirHistory";
+
+type Props = {
+  safeAddr: string;
+  moduleAddr: string;
+  factoryAddr?: string | null;
+  readProvider: ethers.Provider | null;
+  owners: string[];
+};
+
+const KIND_LABEL: Record<HistoryEntry["kind"], string> = {
+  deployed: "Module deployed",
+  designated: "Beneficiary set",
+  removed: "Beneficiary removed",
+  prolonged: "Activation changed",
+};
+
+const KIND_TONE: Record<HistoryEntry["kind"], string> = {
+  deployed: "bg-neutral-800 text-neutral-200",
+  designated: "bg-emerald-900/40 text-emerald-200",
+  removed: "bg-rose-900/40 text-rose-200",
+  prolonged: "bg-sky-900/40 text-sky-200",
+};
+
+/** Audit trail of BeneficiarySet / ActivationTimeSet events, paged backwards from the latest block. */
+export default function HistoryPanel({
+  safeAddr,
+  moduleAddr,
+  factoryAddr,
+  readProvider,
+  owners,
+}: Props) {
+  const [open, setOpen] = useState(false);
+  const [logs, setLogs] = useState<ethers.Log[]>([]);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [cursor, setCursor] = useState<number | null | undefined>(undefined); // undefined = not started
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string>("");
+  const [ownerFilter, setOwnerFilter] = useState<string>("");
+
+  const chunkRef = useRef<number | undefined>(undefined);
+  const stopRef = useRef<number>(0);
+  const tsCache = useRef(new Map<number, number>());
+
+  const reachedDeploy = entries.some((e) => e.kind === "deployed");
+  const hasMore = cursor !== null && !reachedDeploy;
+
+  async function loadPage() {
+    if (!readProvider || busy) return;
+    try {
+      setBusy(true);
+      setError("");
+      let toBlock = cursor;
+      if (toBlock == null) {
+        toBlock = await readProvider.getBlockNumber();
+        stopRef.current = await findDeployBlock(readProvider, moduleAddr, toBlock);
+      }
+      const page = await scanLogsBackward(
+        readProvider,
+        historyFilter(moduleAddr, factoryAddr),
+        toBlock,
+        stopRef.current,
+        { chunk: chunkRef.current }
+      );
+      chunkRef.current = page.chunk;
+
+      const all = [...logs, ...page.logs];
+      const decoded = decodeHistory(all, safeAddr, moduleAddr);
+      setLogs(all);
+      setEntries(await withTimestamps(readProvider, decoded, tsCache.current));
+
+      // Reached the guessed deploy block without its ModuleDeployed event:
+      // the guess came from pruned state, so keep paging down to genesis.
+      if (page.nextToBlock === null && stopRef.current > 0 && !decoded.some((e) => e.kind === "deployed")) {
+        setCursor(stopRef.current - 1);
+        stopRef.current = 0;
+      } else {
+        setCursor(page.nextToBlock);
+      }
+    } catch (e) {
+      console.error("[HistoryPanel] load error:", e);
+      setError(errorMessage(e, "Failed to load logs"));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const visible = useMemo(() => {
+    const list = ownerFilter
+      ? entries.filter((e) => e.kind === "deployed" || e.owner?.toLowerCase() === ownerFilter)
+      : entries;
+    return [...list].reverse(); // newest first
+  }, [entries, ownerFilter]);
+
+  return (
+    <details
+      open={open}
+      onToggle={(e) => {
+        const isOpen = (e.target as HTMLDetailsElement).open;
+        setOpen(isOpen);
+        if (isOpen && cursor === undefined) loadPage();
+      }}
+      className="rounded-xl border border-neutral-800 bg-neutral-900/40"
+    >
+      <summary className="list-none cursor-pointer select-none px-3 py-2 flex items-center justify-between text-sm">
+        <span className="font-medium">History</span>
+        <span className={`transition-transform ${open ? "rotate-180" : ""}`}>▼</span>
+      </summary>
+
+      <div className="px-3 pb-3 space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <label className="opacity-70">Owner</label>
+          <select
+            className="h-8 rounded bg-neutral-800 px-2"
+            value={ownerFilter}
+            onChange={(e) => setOwnerFilter(e.target.value)}
+          >
+            <option value="">All owners</option>
+            {owners.map((o) => (
+              <option key={o} value={o.toLowerCase()}>
+                {o.slice(0, 6)}…{o.slice(-4)}
+              </option>
+            ))}
+          </select>
+          {cursor != null && (
+            <span className="opacity-60">Scanned down to block {cursor + 1}</span>
+          )}
+        </div>
+
+        {visible.length === 0 ? (
+          <div className="text-sm text-neutral-400">
+            {busy ? "Scanning logs…" : hasMore ? "No events in the scanned range yet." : "No events."}
+          </div>
+        ) : (
+          <ol className="space-y-2">
+            {visible.map((e) => (
+              <li
+                key={`${e.txHash}:${e.logIndex}`}
+                className="flex flex-wrap items-center gap-2 text-xs border-t border-neutral-800 pt-2"
+              >
+                <span className={`px-2 py-0.5 rounded ${KIND_TONE[e.kind]}`}>{KIND_LABEL[e.kind]}</span>
+                {e.owner && (
+                  <>
+                    <span className="opacity-70">owner</span>
+                    <Address addr={e.owner} variant="ghost" />
+                  </>
+                )}
+                {e.kind === "designated" && e.beneficiary && (
+                  <>
+                    <span className="opacity-70">→ heir</span>
+                    <Address addr={e.beneficiary} />
+                  </>
+                )}
+                {e.activationTime != null && e.activationTime !== 0n && (
+                  <span title={fmtUTC(e.activationTime)}>
+                    <span className="opacity-70">activation</span> {fmtLocal(e.activationTime)}
+                  </span>
+                )}
+                <span className="ml-auto flex items-center gap-2 opacity-80">
+                  {e.timestamp != null && (
+                    <span title={fmtUTC(BigInt(e.timestamp))}>{fmtLocal(BigInt(e.timestamp))}</span>
+                  )}
+                  <span className="opacity-60">#{e.blockNumber}</span>
+                  <Address addr={e.txHash} variant="ghost" />
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {!!error && <div className="text-xs text-rose-300">{error}</div>}
+
+        {hasMore && (cursor !== undefined || !!error) && (
+          <button
+            className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700 text-xs disabled:opacity-50"
+            onClick={loadPage}
+            disabled={busy}
+          >
+            {busy ? "Scanning…" : cursor === undefined ? "Retry" : "Load older"}
+          </button>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,225 @@
+// src/components/InheritedSafes.tsx
+import { useEffect, useRef, useState } from "react";
+import { ethers } from "ethers";
+import Address from "./Address";
+import Countdown from "./Countdown";
+import { AvailableBadge } from "./Badges";
+import { CHAINS, SUPPORTED_CHAIN_IDS, getFactoryAddress } from "../config/chains";
+import { fmtLocal, fmtUTC } from "../lib/time";
+import { getPublicProvider } from "../lib/rpc";
+import { sendClaim } from "../lib/claim";
+import { switchWalletChain } from "../lib/wallet";
+import {
+  resolveSeats,
+  scanChainPage,
+  type ChainScan,
+  type InheritedSeat,
+} from "../lib/inheritance";
+import { notifier } from "../lib/notifications";
+import { trackTx } from "../lib/txTracker";
+import { errorMessage } from "../lib/errors";
+import { getWalletSigner } from "../wallet/ethers";
+
+type Props = {
+  account: string; // connected wallet (the would-be heir)
+  walletChainId: number | null;
+  onOpen: (chainId: number, safe: string) => void;
+};
+
+const seatKey = (s: InheritedSeat) => `${s.chainId}:${s.module}:${s.owner}`;
+
+/** "Safes I inherit": every Safe seat where the connected wallet is the current beneficiary. */
+export default function InheritedSafes({ account, walletChainId, onOpen }: Props) {
+  const note = notifier("Safes I inherit");
+
+  const [scans, setScans] = useState<Record<number, ChainScan>>({});
+  const [seats, setSeats] = useState<InheritedSeat[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [claiming, setClaiming] = useState<string>("");
+
+  const [nowSec, setNowSec] = useState(() => Math.floor(Date.now() / 1000));
+  useEffect(() => {
+    const id = setInterval(() => setNowSec(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(id);
+  }, []);
+
+  // Bumped per scan and per wallet; results of an older scan are dropped
+  const scanId = useRef(0);
+
+  // New wallet → start over
+  useEffect(() => {
+    scanId.current++;
+    setScans({});
+    setSeats([]);
+    setBusy(false);
+  }, [account]);
+
+  const chains = SUPPORTED_CHAIN_IDS.filter((id) => getFactoryAddress(id) && getPublicProvider(id));
+  const started = Object.keys(scans).length > 0;
+  const hasMore = chains.some((id) => !scans[id] || scans[id].nextToBlock !== null);
+
+  async function scan() {
+    if (!ethers.isAddress(account)) return;
+    const id = ++scanId.current;
+    const who = account;
+    const stale = () => id !== scanId.current;
+    try {
+      setBusy(true);
+      const next = await Promise.all(
+        chains
+          .filter((c) => !scans[c] || scans[c].nextToBlock !== null)
+          .map((c) => scanChainPage(c, who, scans[c]))
+      );
+      if (stale()) return;
+      const merged = { ...scans };
+      for (const s of next) merged[s.chainId] = s;
+      setScans(merged);
+
+      const resolved = await Promise.all(
+        Object.values(merged).map((s) =>
+          resolveSeats(s, who).catch((e) => {
+            console.debug("[InheritedSafes] resolve failed:", s.chainId, e);
+            return [] as InheritedSeat[];
+          })
+        )
+      );
+      if (stale()) return;
+      setSeats(resolved.flat().sort((a, b) => (a.activationTime < b.activationTime ? -1 : 1)));
+    } finally {
+      if (!stale()) setBusy(false);
+    }
+  }
+
+  async function claim(seat: InheritedSeat) {
+    try {
+      setClaiming(seatKey(seat));
+      if (walletChainId !== seat.chainId) await switchWalletChain(seat.chainId);
+
+      const signer = await getWalletSigner();
+      if (Number((await signer.provider.getNetwork()).chainId) !== seat.chainId) {
+        throw new Error(`Switch your wallet to ${CHAINS[seat.chainId]?.name}`);
+      }
+      const tx = await sendClaim(
+        signer,
+        getPublicProvider(seat.chainId)!,
+        seat.safe,
+        seat.module,
+        seat.owner
+      );
+      const t = await trackTx(tx, { label: "Claim", safe: seat.safe, owner: seat.owner });
+      if (t.status === "mined") setSeats((xs) => xs.filter((s) => seatKey(s) !== seatKey(seat)));
+    } catch (e) {
+      note(errorMessage(e), "error", {
+        chainId: seat.chainId,
+        safe: seat.safe,
+        owner: seat.owner,
+      });
+    } finally {
+      setClaiming("");
+    }
+  }
+
+  const errors = Object.values(scans).filter((s) => s.error);
+
+  return (
+    <section
+      className="rounded-2xl bg-neutral-900/70 border border-neutral-800 p-4 space-y-3"
+      aria-labelledby="inherit-title"
+    >
+      <div className="flex items-start justify-between gap-3">
+        <h2 id="inherit-title" className="font-semibold">
+          Safes I inherit
+        </h2>
+        <button
+          className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700 text-sm disabled:opacity-50"
+          onClick={scan}
+          disabled={busy || (started && !hasMore)}
+        >
+          {busy ? "Scanning…" : !started ? "Scan networks" : hasMore ? "Scan older blocks" : "Fully scanned"}
+        </button>
+      </div>
+
+      {!started ? (
+        <div className="text-sm text-neutral-400">
+          Finds every Safe where <Address addr={account} variant="ghost" /> is a designated heir,
+          across {chains.map((id) => CHAINS[id].name).join(", ")}.
+        </div>
+      ) : seats.length === 0 ? (
+        <div className="text-sm text-neutral-400">
+          {busy ? "Scanning…" : "No current designations found in the scanned blocks."}
+        </div>
+      ) : (
+        <div className="overflow-x-auto -mx-2 md:mx-0">
+          <table className="min-w-full text-sm">
+            <thead className="text-neutral-300">
+              <tr className="border-b border-neutral-800">
+                <th className="text-left font-medium py-2 pr-4">Network</th>
+                <th className="text-left font-medium py-2 pr-4">Safe</th>
+                <th className="text-left font-medium py-2 pr-4">Owner</th>
+                <th className="text-left font-medium py-2 pr-4">Activation</th>
+                <th className="text-left font-medium py-2">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {seats.map((s) => {
+                const ready = s.activationTime !== 0n && nowSec >= Number(s.activationTime);
+                return (
+                  <tr key={seatKey(s)} className="border-t border-neutral-800 align-top">
+                    <td className="py-2 pr-4">{CHAINS[s.chainId]?.name}</td>
+                    <td className="py-2 pr-4">
+                      <Address addr={s.safe} chainId={s.chainId} />
+                      {!s.verified && (
+                        <div className="text-[11px] text-amber-300 mt-1" title="Module was not deployed by the configured factory">
+                          unverified module
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <Address addr={s.owner} variant="ghost" chainId={s.chainId} />
+                      {!s.ownerActive && (
+                        <div className="text-[11px] text-neutral-400 mt-1">no longer an owner</div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <div className="flex flex-col gap-1" title={fmtUTC(s.activationTime)}>
+                        <span className="text-xs opacity-80">{fmtLocal(s.activationTime)}</span>
+                        {ready ? (
+                          <AvailableBadge />
+                        ) : (
+                          <Countdown target={s.activationTime} refSec={nowSec} />
+                        )}
+                      </div>
+                    </td>
+                    <td className="py-2">
+                      <div className="flex flex-wrap gap-2">
+                        <button
+                          className="px-2 py-1 rounded bg-neutral-800 hover:bg-neutral-700"
+                          onClick={() => onOpen(s.chainId, s.safe)}
+                        >
+                          Open
+                        </button>
+                        <button
+                          className="px-2 py-1 rounded bg-amber-700 hover:bg-amber-600 disabled:opacity-50"
+                          onClick={() => claim(s)}
+                          disabled={!ready || !s.ownerActive || !!claiming}
+                        >
+                          {claiming === seatKey(s) ? "…" : ready ? "Claim" : "Claim (not yet)"}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {errors.map((s) => (
+        <div key={s.chainId} className="text-xs text-rose-300">
+          {CHAINS[s.chainId]?.name}: {s.error}
+        </div>
+      ))}
+    </section>
+  );
+}
@@ -1,14 +1,41 @@
 // src/components/InstallModule.tsx
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { ethers } from "ethers";
 import Address from "./Address";
+import { notifier } from "../lib/notifications";
+import { trackTx } from "../lib/txTracker";
 
-import { CHAINS } from "../config/chains";
+import { CHAINS, getMultiSendCallOnly, getTxServiceUrl } from "../config/chains";
 import { validateSafeOnChain } from "../lib/safeValidation";
+import {
+  buildSafeTx,
+  encodeExecTransaction,
+  getSafeNonce,
+  makeSafeInterface,
+  prevalidatedSigFor,
+  safeTxHash,
+  signSafeTx,
+} from "../lib/safeTx";
+import {
+  confirmSafeTx,
+  findQueuedTx,
+  getNextServiceNonce,
+  getServiceTx,
+  proposeSafeTx,
+  serviceTxToSafeTx,
+  type ServiceMultisigTx,
+} from "../lib/txService";
+import { createBundle, type SignatureBundle } from "../lib/signatureBundle";
+import { encodeFactoryDeploy, getInstallSalt } from "../lib/moduleInstall";
+import { encodeMultiSend } from "../lib/multiSend";
+import { batchFilename, createBatch, deployModuleTx, enableModuleTx } from "../lib/txBuilder";
+import { downloadText } from "../lib/download";
+import { useLatest } from "../lib/useLatest";
+import { errorMessage } from "../lib/errors";
 
 // ABIs from your repo
-import { SafeABI } from "../abi/Safe";
 import { HeirSafeModuleFactoryABI } from "../abi/HeirSafeModuleFactory";
+import { getWalletSigner } from "../wallet/ethers";
 
 type Props = {
   safeAddr: string;
@@ -17,7 +44,11 @@ type Props = {
   readProvider: ethers.Provider;
   isDeployed: boolean;
   isEnabled: boolean;
+  chainId?: number | null;
+  threshold?: number;
   onChanged?: () => void | Promise<void>;
+  /** Hand an unsigned enableModule SafeTx to the offline signature collector. */
+  onCollectSignatures?: (b: SignatureBundle) => void;
 };
 
 function short(n?: number | null) {
@@ -30,42 +61,6 @@ function isCallExceptionMissingData(e: any) {
   return e?.code === "CALL_EXCEPTION" && (e?.reason == null || e?.reason === "missing revert data");
 }
 
-/** Prevalidated signature for 1/1 Safe:
- *  bytes32(r=owner), bytes32(s=0), bytes1(v=0x01)
- */
-function prevalidatedSigFor(owner: string) {
-  const r = ethers.zeroPadValue(ethers.getAddress(owner), 32);
-  return ethers.solidityPacked(["bytes32", "bytes32", "uint8"], [r, ethers.ZeroHash, 0x01]);
-}
-
-/** Merge user ABI with minimal fallback fragments in case execTransaction is missing. */
-function makeSafeInterface() {
-  const base: any[] = Array.isArray(SafeABI)
-    ? SafeABI
-    : (SafeABI as any)?.abi
-    ? (SafeABI as any).abi
-    : [];
-
-  const needsExec =
-    !base.some((f) => typeof f?.name === "string" && f.name === "execTransaction") &&
-    !base.some((f) => typeof f === "string" && f.includes("execTransaction("));
-
-  const needsEnable =
-    !base.some((f) => typeof f?.name === "string" && f.name === "enableModule") &&
-    !base.some((f) => typeof f === "string" && f.includes("enableModule("));
-
-  const fallback: string[] = [];
-  if (needsExec) {
-    fallback.push(
-      "function execTransaction(address to,uint256 value,bytes data,uint8 operation,uint256 safeTxGas,uint256 baseGas,uint256 gasPrice,address gasToken,address refundReceiver,bytes signatures) payable returns (bool)"
-    );
-  }
-  if (needsEnable) {
-    fallback.push("function enableModule(address module)");
-  }
-  return new ethers.Interface([...base, ...fallback]);
-}
-
 export default function InstallModule({
   safeAddr,
   factoryAddr,
@@ -73,10 +68,19 @@ export default function InstallModule({
   readProvider,
   isDeployed,
   isEnabled,
+  chainId,
+  threshold,
   onChanged,
+  onCollectSignatures,
 }: Props) {
   const [busy, setBusy] = useState<"deploy" | "enable" | null>(null);
-  const [note, setNote] = useState<string>("");
+
+  const note = notifier("Install", { safe: safeAddr, chainId: chainId ?? undefined });
+
+  // Multisig path: enableModule proposal tracked on the Safe Transaction Service
+  const txServiceUrl = chainId != null ? getTxServiceUrl(chainId) : null;
+  const isMultisig = (threshold ?? 1) > 1;
+  const [proposal, setProposal] = useState<ServiceMultisigTx | null>(null);
 
   const chainIdLabel = useMemo(() => {
     // best-effort label for debugging
@@ -85,43 +89,194 @@ export default function InstallModule({
     return short(_p?._network?.chainId ?? _p?.network?.chainId ?? null);
   }, [readProvider]);
 
-  async function deploy() {
+  const enableData = useMemo(
+    () => makeSafeInterface().encodeFunctionData("enableModule", [predictedModule]),
+    [predictedModule]
+  );
+
+  // Not deployed yet: the Safe DELEGATECALLs MultiSendCallOnly, which runs
+  // factory deploy + enableModule as calls from the Safe — one tx, no window
+  // where a deployed module sits disabled.
+  const multiSendAddr = chainId != null ? getMultiSendCallOnly(chainId) : null;
+  const [multiSendOk, setMultiSendOk] = useState(false);
+  useEffect(() => {
+    setMultiSendOk(false);
+    if (!multiSendAddr) return;
+    let cancelled = false;
+    readProvider
+      .getCode(multiSendAddr)
+      .then((code) => !cancelled && setMultiSendOk(code !== "0x"))
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [readProvider, multiSendAddr]);
+
+  /** The SafeTx call that installs the module (null: deploy separately first). */
+  const installCall = useMemo(() => {
+    if (isDeployed) return { to: safeAddr, data: enableData, operation: 0 as const };
+    if (!multiSendOk || !multiSendAddr) return null;
+    let salt: string;
     try {
-      setBusy("deploy");
-      setNote("");
-      const eth = (window as any).ethereum;
-      if (!eth) throw new Error("No wallet detected");
-      const bp = new ethers.BrowserProvider(eth);
-      const signer = await bp.getSigner();
+      salt = getInstallSalt();
+    } catch {
+      return null;
+    }
+    const data = encodeMultiSend([
+      { to: factoryAddr, data: encodeFactoryDeploy(factoryAddr, safeAddr, salt) },
+      { to: safeAddr, data: enableData },
+    ]);
+    return { to: multiSendAddr, data, operation: 1 as const };
+  }, [isDeployed, multiSendOk, multiSendAddr, factoryAddr, safeAddr, enableData]);
+  const installTo = installCall?.to;
+  const installData = installCall?.data;
 
-      const factory = new ethers.Contract(factoryAddr, HeirSafeModuleFactoryABI, signer);
+  // Pick up a proposal another owner (or an earlier session) already queued
+  useEffect(() => {
+    if (!installTo || !installData || !isMultisig || !txServiceUrl) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const nonce = await getSafeNonce(readProvider, safeAddr);
+        const found = await findQueuedTx(txServiceUrl, safeAddr, installTo, installData, nonce);
+        if (!cancelled) setProposal(found);
+      } catch (e) {
+        console.debug("[InstallModule] proposal lookup failed:", e);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [installTo, installData, isMultisig, txServiceUrl, readProvider, safeAddr]);
 
-      // Try common create/deploy shapes
-      let tx;
+  // Poll confirmation progress until the proposal is executed
+  const latest = useLatest({ note, onChanged });
+  const proposalHash = proposal?.safeTxHash;
+  const proposalExecuted = !!proposal?.isExecuted;
+  useEffect(() => {
+    if (!txServiceUrl || !proposalHash || proposalExecuted) return;
+    const id = setInterval(async () => {
       try {
-        factory.interface.getFunction("deployFor");
-        tx = await factory.deployFor(safeAddr);
-      } catch {
-        try {
-          factory.interface.getFunction("createFor");
-          tx = await factory.createFor(safeAddr);
-        } catch {
-          try {
-            factory.interface.getFunction("deploy");
-            tx = await factory.deploy(safeAddr);
-          } catch {
-            throw new Error("Factory does not expose a known deploy method");
-          }
+        const t = await getServiceTx(txServiceUrl, proposalHash);
+        setProposal(t);
+        if (t.isExecuted) {
+          latest.current.note("Module enabled", "success", { key: proposalHash, txHash: t.transactionHash ?? undefined });
+          await latest.current.onChanged?.();
         }
+      } catch (e) {
+        console.debug("[InstallModule] proposal poll failed:", e);
       }
+    }, 10000);
+    return () => clearInterval(id);
+  }, [txServiceUrl, proposalHash, proposalExecuted, latest]);
+
+  /** Sign the install call as a SafeTx and propose it (or add a confirmation to the queued one). */
+  async function proposeEnable(signer: ethers.Signer, owner: string, version?: string) {
+    if (!installCall) throw new Error("Deploy the module first");
+    if (!txServiceUrl) {
+      throw new Error(
+        "Enable requires threshold = 1 (no Safe Transaction Service on this network — use Safe UI)."
+      );
+    }
+    if (chainId == null) throw new Error("Unknown network");
+
+    const onChainNonce = await getSafeNonce(readProvider, safeAddr);
+    const queued = await findQueuedTx(txServiceUrl, safeAddr, installCall.to, installCall.data, onChainNonce);
+
+    let hash: string;
+    if (queued) {
+      hash = queued.safeTxHash;
+      if (queued.confirmations.some((c) => c.owner.toLowerCase() === owner.toLowerCase())) {
+        setProposal(queued);
+        note("You already signed this proposal — waiting for other owners.", "info", { key: hash });
+        return;
+      }
+      const tx = serviceTxToSafeTx(queued);
+      if (safeTxHash(chainId, safeAddr, tx, version) !== hash) {
+        throw new Error("Queued proposal hash mismatch — refusing to sign.");
+      }
+      note("Sign the queued enable proposal in your wallet…", "info", { key: hash, silent: true });
+      const sig = await signSafeTx(signer, chainId, safeAddr, tx, version);
+      await confirmSafeTx(txServiceUrl, hash, sig);
+      note("Confirmation added to the enable proposal", "success", { key: hash });
+    } else {
+      const nonce = await getNextServiceNonce(txServiceUrl, safeAddr, onChainNonce);
+      const tx = buildSafeTx(installCall.to, installCall.data, nonce, installCall.operation);
+      hash = safeTxHash(chainId, safeAddr, tx, version);
+      note("Sign the enable proposal in your wallet…", "info", { key: hash, silent: true });
+      const sig = await signSafeTx(signer, chainId, safeAddr, tx, version);
+      await proposeSafeTx(txServiceUrl, safeAddr, tx, hash, owner, sig);
+      note("Enable proposal submitted to Safe Transaction Service", "success", { key: hash });
+    }
+
+    setProposal(await getServiceTx(txServiceUrl, hash));
+  }
+
+  /** No tx service (or by choice): build the SafeTx and pass it between owners by link. */
+  async function collectOffline() {
+    try {
+      setBusy("enable");
+      if (chainId == null) throw new Error("Unknown network");
+      if (!installCall) throw new Error("Deploy the module first");
+      const v = await validateSafeOnChain(readProvider, safeAddr);
+      if (!v.ok) throw new Error("Not a Safe on this network");
+      const nonce = await getSafeNonce(readProvider, safeAddr);
+      onCollectSignatures?.(
+        createBundle(
+          chainId,
+          safeAddr,
+          buildSafeTx(installCall.to, installCall.data, nonce, installCall.operation),
+          v.version,
+          isDeployed ? "Enable HeirSafe module" : "Deploy and enable HeirSafe module"
+        )
+      );
+    } catch (e) {
+      console.error("[InstallModule] offline bundle error:", e);
+      note(errorMessage(e), "error");
+    } finally {
+      setBusy(null);
+    }
+  }
 
-      setNote("Deploying module…");
-      await tx.wait();
-      setNote("Module deployed");
-      await onChanged?.();
+  const offlineOnly = isMultisig && !txServiceUrl && !!onCollectSignatures;
+  const what = isDeployed ? "enable" : "deploy + enable";
+
+  // Transaction Builder batch: deploy (when needed) + enableModule, executed from Safe{Wallet}
+  function exportBatch() {
+    try {
+      if (chainId == null) throw new Error("Unknown network");
+      const txs = [
+        ...(isDeployed ? [] : [deployModuleTx(factoryAddr, safeAddr, getInstallSalt())]),
+        enableModuleTx(safeAddr, predictedModule),
+      ];
+      const b = createBatch(
+        chainId,
+        safeAddr,
+        txs,
+        "HeirSafe: install module",
+        `${isDeployed ? "" : "Deploy the HeirSafe module and "}enable ${predictedModule} on this Safe`
+      );
+      downloadText(batchFilename(b, "install"), JSON.stringify(b, null, 2), "application/json");
+      note("Batch saved — drop it into Safe{Wallet} › Apps › Transaction Builder", "success");
+    } catch (e) {
+      note(errorMessage(e, "Batch export failed"), "error");
+    }
+  }
+
+  async function deploy() {
+    try {
+      setBusy("deploy");
+      const signer = await getWalletSigner();
+
+      const factory = new ethers.Contract(factoryAddr, HeirSafeModuleFactoryABI, signer);
+
+      const tx = await factory.deploy(safeAddr, getInstallSalt());
+
+      // App re-reads install state when the tracked tx settles
+      await trackTx(tx, { label: "Module deployment", safe: safeAddr });
     } catch (e: any) {
       console.error("[InstallModule] deploy error:", e);
-      setNote(e?.reason || e?.message || String(e));
+      note(e?.reason || e?.message || String(e), "error");
     } finally {
       setBusy(null);
     }
@@ -130,53 +285,30 @@ export default function InstallModule({
   async function enable() {
     try {
       setBusy("enable");
-      setNote("");
+      if (!installCall) throw new Error("Deploy the module first");
 
-      // Validate Safe and require threshold 1 for prevalidated signature path
       const v = await validateSafeOnChain(readProvider, safeAddr);
       if (!v.ok) throw new Error("Not a Safe on this network");
-      if (v.threshold !== 1) {
-        throw new Error("Enable requires threshold = 1 (use Safe UI for multisig).");
-      }
 
-      const eth = (window as any).ethereum;
-      if (!eth) throw new Error("No wallet detected");
-      const bp = new ethers.BrowserProvider(eth);
-      const signer = await bp.getSigner();
+      const signer = await getWalletSigner();
       const owner = await signer.getAddress();
 
       if (!v.owners.some((o) => o.toLowerCase() === owner.toLowerCase())) {
         throw new Error("Connect an owner wallet to enable the module.");
       }
 
-      // Build Safe self-call: enableModule(predictedModule)
-      const safeIface = makeSafeInterface();
-      const dataEnable = safeIface.encodeFunctionData("enableModule", [predictedModule]);
-
-      // execTransaction(to=this, data=enableModule(...), prevalidated signature)
-      const to = safeAddr;
-      const value = 0;
-      const data = dataEnable;
-      const operation = 0; // CALL
-      const safeTxGas = 0;
-      const baseGas = 0;
-      const gasPrice = 0;
-      const gasToken = ethers.ZeroAddress;
-      const refundReceiver = ethers.ZeroAddress;
-      const signatures = prevalidatedSigFor(owner);
-
-      const execData = safeIface.encodeFunctionData("execTransaction", [
-        to,
-        value,
-        data,
-        operation,
-        safeTxGas,
-        baseGas,
-        gasPrice,
-        gasToken,
-        refundReceiver,
-        signatures,
-      ]);
+      // Multisig: collect signatures through the tx service instead of executing
+      if (v.threshold !== 1) {
+        await proposeEnable(signer, owner, v.version);
+        return;
+      }
+
+      // execTransaction(install call, prevalidated signature)
+      const execData = encodeExecTransaction(
+        // nonce is not part of execTransaction
+        buildSafeTx(installCall.to, installCall.data, 0, installCall.operation),
+        prevalidatedSigFor(owner)
+      );
 
       // Preflight: set from=owner so prevalidated signature path sees msg.sender == owner.
       try {
@@ -205,7 +337,6 @@ export default function InstallModule({
         }
       }
 
-      setNote("Enabling module…");
       // Send raw tx so we don't depend on method wrappers
       const tx = await signer.sendTransaction({
         to: safeAddr,
@@ -213,12 +344,14 @@ export default function InstallModule({
         value: 0,
       });
 
-      await tx.wait();
-      setNote("Module enabled");
-      await onChanged?.();
+      await trackTx(tx, {
+        label: isDeployed ? "Module enable" : "Module deploy + enable",
+        safe: safeAddr,
+        owner,
+      });
     } catch (e: any) {
       console.error("[InstallModule] enable error:", e);
-      setNote(e?.reason || e?.message || String(e));
+      note(e?.reason || e?.message || String(e), "error");
     } finally {
       setBusy(null);
     }
@@ -238,18 +371,49 @@ export default function InstallModule({
 
       <button
         className="w-full px-3 py-3 rounded bg-emerald-700 hover:bg-emerald-600 disabled:opacity-60"
-        onClick={isDeployed ? enable : deploy}
+        onClick={installCall ? (offlineOnly ? collectOffline : enable) : deploy}
         disabled={busy !== null}
       >
         {busy
           ? "Working..."
-          : isDeployed
+          : installCall
           ? isEnabled
             ? "Module already enabled"
-            : "Enable module in Safe"
+            : isMultisig && txServiceUrl
+            ? proposal
+              ? `Sign ${what} proposal`
+              : `Propose ${what} to owners (${threshold} signatures needed)`
+            : offlineOnly
+            ? `Collect ${threshold} owner signatures offline`
+            : isDeployed
+            ? "Enable module in Safe"
+            : "Deploy & enable module (one transaction)"
           : "Deploy module instance"}
       </button>
 
+      {!isDeployed && installCall && (
+        <button
+          className="text-xs underline opacity-70 hover:opacity-100 disabled:opacity-40"
+          onClick={deploy}
+          disabled={busy !== null}
+          title="Anyone can deploy; an owner enables it afterwards"
+        >
+          Only deploy the module instance
+        </button>
+      )}
+
+      {proposal && <ProposalProgress proposal={proposal} />}
+
+      {installCall && isMultisig && txServiceUrl && onCollectSignatures && (
+        <button
+          className="text-xs underline opacity-70 hover:opacity-100 disabled:opacity-40"
+          onClick={collectOffline}
+          disabled={busy !== null}
+        >
+          Collect signatures offline instead
+        </button>
+      )}
+
       {/* Helper: open Safe UI (network label is best-effort) */}
       <div className="flex items-center gap-2">
         <a
@@ -260,13 +424,54 @@ export default function InstallModule({
         >
           Open Safe UI
         </a>
+        <button
+          className="px-3 py-2 rounded bg-neutral-800 hover:bg-neutral-700 text-sm"
+          onClick={exportBatch}
+          title="JSON batch for the Safe{Wallet} Transaction Builder app"
+        >
+          Transaction Builder batch
+        </button>
         <span className="text-xs opacity-60">(network: {chainIdLabel || "?"})</span>
       </div>
+    </div>
+  );
+}
 
-      {!!note && (
-        <div className="text-xs px-2 py-1 rounded bg-neutral-900/60 border border-neutral-800">
-          {note}
+/** Confirmation progress of a queued install (enableModule or deploy + enable) proposal. */
+function ProposalProgress({ proposal }: { proposal: ServiceMultisigTx }) {
+  const have = proposal.confirmations.length;
+  const need = proposal.confirmationsRequired;
+  const pct = Math.min(100, Math.round((have / Math.max(1, need)) * 100));
+
+  return (
+    <div className="rounded-lg border border-neutral-800 bg-neutral-900/60 p-2 space-y-2 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <span>
+          Install proposal · nonce {proposal.nonce}
+        </span>
+        <span className="opacity-80">
+          {have}/{need} confirmations
+        </span>
+      </div>
+      <div className="h-1.5 rounded bg-neutral-800 overflow-hidden">
+        <div className="h-full bg-emerald-500 transition-all" style={{ width: `${pct}%` }} />
+      </div>
+      {!!have && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="opacity-70">Signed by:</span>
+          {proposal.confirmations.map((c) => (
+            <Address key={c.owner} addr={c.owner} variant="ghost" />
+          ))}
+        </div>
+      )}
+      {proposal.isExecuted ? (
+        <div className="text-emerald-300">Executed</div>
+      ) : have >= need ? (
+        <div className="text-emerald-300">
+          Threshold reached — execute the transaction from Safe UI.
         </div>
+      ) : (
+        <div className="opacity-70">Waiting for other owners to confirm…</div>
       )}
     </div>
   );
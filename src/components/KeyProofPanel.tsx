@@ -0,0 +1,142 @@
+// src/components/KeyProofPanel.tsx
+import { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import {
+  challengeAgeIssue,
+  challengeMessage,
+  challengeToLink,
+  getIssuedChallenge,
+  renewChallenge,
+  verifyProof,
+  type KeyChallenge,
+  type ProofResult,
+} from "../lib/keyProof";
+import { errorMessage } from "../lib/errors";
+import { notifier } from "../lib/notifications";
+
+type Props = {
+  chainId: number;
+  safe: string;
+  owner: string;
+  beneficiary: string;
+  readProvider: ethers.Provider;
+  onVerified: (ok: boolean) => void;
+};
+
+/** Owner side of the handshake: hand the heir a challenge, verify what comes back. */
+export default function KeyProofPanel({ chainId, safe, owner, beneficiary, readProvider, onVerified }: Props) {
+  const note = notifier("Key-control proof", { safe, owner, chainId });
+
+  // One persisted challenge per (chain, Safe, owner, beneficiary): reloads keep the link the heir already has.
+  // Issued in an effect since a first visit writes a fresh nonce to storage.
+  const key = `${chainId}:${safe}:${owner}:${beneficiary}`.toLowerCase();
+  const [issued, setIssued] = useState<{ key: string; c: KeyChallenge } | null>(null);
+  const challenge = issued?.key === key ? issued.c : null;
+  const [signature, setSignature] = useState("");
+  const [result, setResult] = useState<ProofResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setIssued({ key, c: getIssuedChallenge(chainId, safe, owner, beneficiary) });
+  }, [key, chainId, safe, owner, beneficiary]);
+
+  useEffect(() => {
+    setSignature("");
+    setResult(null);
+    onVerified(false);
+  }, [challenge, onVerified]);
+
+  if (!challenge) return null;
+  const age = challengeAgeIssue(challenge);
+
+  function renew() {
+    if (!confirm("Issue a new challenge? A link already sent to the heir will stop verifying.")) return;
+    setIssued({ key, c: renewChallenge(chainId, safe, owner, beneficiary) });
+  }
+
+  async function copy(text: string, label: string) {
+    try {
+      await navigator.clipboard.writeText(text);
+      note(`${label} copied — send it to the heir`, "success");
+    } catch {
+      note(`Can't copy ${label}`, "error");
+    }
+  }
+
+  async function verify(c: KeyChallenge) {
+    try {
+      setBusy(true);
+      const r = await verifyProof(readProvider, c, signature);
+      setResult(r);
+      onVerified(r.ok);
+    } catch (e) {
+      setResult({ ok: false, error: errorMessage(e, "Verification failed") });
+      onVerified(false);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="space-y-2 max-w-xl text-xs">
+      <div className="opacity-80">
+        Ask the heir to open this link with the beneficiary wallet and sign. Then paste their
+        signature below.
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <button
+          className="px-2 py-1 rounded bg-neutral-800 hover:bg-neutral-700"
+          onClick={() => copy(challengeToLink(challenge), "Link")}
+        >
+          Copy link
+        </button>
+        <button
+          className="px-2 py-1 rounded bg-neutral-800 hover:bg-neutral-700"
+          onClick={() => copy(challengeMessage(challenge), "Message")}
+        >
+          Copy message
+        </button>
+        <button
+          className="px-2 py-1 rounded bg-neutral-800 hover:bg-neutral-700"
+          onClick={renew}
+          title="Replace this challenge with a fresh nonce"
+        >
+          New challenge
+        </button>
+      </div>
+      {age && (
+        <div className="text-amber-300">
+          {age === "expired"
+            ? "This challenge has expired — issue a new one and send the heir the new link."
+            : "This challenge is dated in the future — check this computer's clock or issue a new one."}
+        </div>
+      )}
+      <div className="flex gap-2 items-start">
+        <textarea
+          className="flex-1 h-16 px-2 py-1 rounded bg-neutral-800 font-mono break-all"
+          placeholder="0x… signature from the heir"
+          value={signature}
+          onChange={(e) => {
+            setSignature(e.target.value.trim());
+            setResult(null);
+            onVerified(false);
+          }}
+        />
+        <button
+          className="px-3 py-2 rounded bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50"
+          onClick={() => verify(challenge)}
+          disabled={busy || !signature}
+        >
+          {busy ? "…" : "Verify"}
+        </button>
+      </div>
+      {result && (
+        <div className={result.ok ? "text-emerald-300" : "text-rose-300"}>
+          {result.ok
+            ? `Verified: the heir controls this address (${result.method === "eip1271" ? "EIP-1271 contract wallet" : "EIP-191 signature"}).`
+            : result.error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -51,7 +51,8 @@ export default function ModuleIntro() {
           <li>
             The module must be <strong>enabled</strong> on the Safe. If the
             threshold is 1 and you’re an owner, this app can send the enable
-            tx directly; otherwise follow the Safe UI instructions.
+            tx directly; for multisig Safes it can propose the enable tx to
+            the other owners via the Safe Transaction Service.
           </li>
         </ul>
 
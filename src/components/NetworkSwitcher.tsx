@@ -1,79 +1,28 @@
 // src/components/NetworkSwitcher.tsx
-import { useEffect, useMemo, useState } from "react";
-import { ethers } from "ethers";
+import { BaseError, useAccount } from "wagmi";
 import { useSafeApp } from "../lib/safeApp";
-import { CHAINS, SUPPORTED_CHAIN_IDS } from "../config/chains";
+import { CHAINS, SUPPORTED_CHAIN_IDS, getFactoryAddress } from "../config/chains";
+import { switchWalletChain } from "../lib/wallet";
+import { notify } from "../lib/notifications";
 
 export default function NetworkSwitcher() {
-  const { isSafeApp, provider: safeEip1193 } = useSafeApp();
+  const { isSafeApp, safe } = useSafeApp();
+  const { chainId: walletChainId, isConnected } = useAccount();
 
-  // pick the live provider (Safe iframe or injected wallet)
-  const readProvider = useMemo(() => {
-    if (safeEip1193) return new ethers.BrowserProvider(safeEip1193 as any);
-    const eth = (window as any).ethereum;
-    return eth ? new ethers.BrowserProvider(eth) : null;
-  }, [safeEip1193]);
-
-  const [chainId, setChainId] = useState<number | null>(null);
+  // Safe App host owns the network; otherwise it's the connected wallet's chain
+  const chainId = isSafeApp ? safe?.chainId ?? null : isConnected ? walletChainId ?? null : null;
   const currentLabel =
     chainId != null && CHAINS[chainId] ? CHAINS[chainId].name : "Unknown";
 
-  // keep chainId in sync
-  useEffect(() => {
-    let cleanup = () => {};
-    (async () => {
-      if (!readProvider) {
-        setChainId(null);
-        return;
-      }
-      const net = await (readProvider as any).getNetwork();
-      setChainId(Number(net.chainId));
-
-      // listen to wallet chain changes (only works on injected providers)
-      const eth = (window as any).ethereum;
-      if (eth && !safeEip1193) {
-        const handler = (cidHex: string) => {
-          try {
-            setChainId(parseInt(cidHex, 16));
-          } catch {}
-        };
-        eth.on?.("chainChanged", handler);
-        cleanup = () => eth.removeListener?.("chainChanged", handler);
-      }
-    })();
-    return cleanup;
-  }, [readProvider, safeEip1193]);
-
   async function switchTo(target: number) {
-    const eth = (window as any).ethereum;
-    if (!eth) return alert("No injected wallet found to switch networks.");
-
     if (chainId === target) return;
-
-    const targetCfg = CHAINS[target];
-    const targetHex = ethers.toBeHex(target);
-
     try {
-      await eth.request({
-        method: "wallet_switchEthereumChain",
-        params: [{ chainId: targetHex }],
-      });
-    } catch (err: any) {
-      // 4902 = chain not added to wallet
-      if (err?.code === 4902 && targetCfg?.addChainParams) {
-        try {
-          await eth.request({
-            method: "wallet_addEthereumChain",
-            params: [targetCfg.addChainParams],
-          });
-        } catch (e: any) {
-          console.error("wallet_addEthereumChain failed:", e);
-          alert(e?.message || "Failed to add chain to wallet.");
-        }
-      } else {
-        console.error("wallet_switchEthereumChain failed:", err);
-        alert(err?.message || "Failed to switch network.");
-      }
+      await switchWalletChain(target);
+    } catch (err) {
+      console.error("wallet network switch failed:", err);
+      // wagmi wraps connector rejections in BaseError; anything else falls back to its message
+      const msg = err instanceof BaseError ? err.shortMessage : (err as { message?: string } | null)?.message;
+      notify(msg || "Failed to switch network.", "error", { source: "Network", chainId: target });
     }
   }
 
@@ -99,7 +48,7 @@ export default function NetworkSwitcher() {
       {chainId == null && <option value="">Select network</option>}
       {SUPPORTED_CHAIN_IDS.map((id) => (
         <option key={id} value={id}>
-          {CHAINS[id].name}
+          {`${CHAINS[id].name}${getFactoryAddress(id) ? "" : " (no factory)"}`}
         </option>
       ))}
     </select>
@@ -0,0 +1,153 @@
+// src/components/NotificationCenter.tsx
+import { useState } from "react";
+import Address from "./Address";
+import { CHAINS } from "../config/chains";
+import { explorerTxUrl } from "../lib/links";
+import {
+  clearNotices,
+  dismiss,
+  markAllRead,
+  removeNotice,
+  useNotifications,
+  type Notice,
+  type Severity,
+} from "../lib/notifications";
+
+const tone: Record<Severity, { box: string; dot: string }> = {
+  error: { box: "bg-rose-900/60 border-rose-800 text-rose-100", dot: "bg-rose-400" },
+  warn: { box: "bg-amber-900/50 border-amber-800 text-amber-100", dot: "bg-amber-400" },
+  success: { box: "bg-emerald-900/60 border-emerald-800 text-emerald-100", dot: "bg-emerald-400" },
+  info: { box: "bg-neutral-900/80 border-neutral-800 text-neutral-100", dot: "bg-sky-400" },
+};
+
+const shortHash = (h: string) => `${h.slice(0, 10)}…${h.slice(-6)}`;
+
+function Meta({ n }: { n: Notice }) {
+  if (!n.txHash && !n.owner) return null;
+  const txUrl = n.txHash && n.chainId != null ? explorerTxUrl(n.chainId, n.txHash) : null;
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-1 text-[11px] opacity-80">
+      {n.owner && (
+        <span className="inline-flex items-center gap-1">
+          owner <Address addr={n.owner} variant="ghost" chainId={n.chainId} />
+        </span>
+      )}
+      {n.txHash &&
+        (txUrl ? (
+          <a className="font-mono underline" href={txUrl} target="_blank" rel="noreferrer" title={n.txHash}>
+            tx {shortHash(n.txHash)} ↗
+          </a>
+        ) : (
+          <span className="font-mono" title={n.txHash}>
+            tx {shortHash(n.txHash)}
+          </span>
+        ))}
+      {n.chainId != null && <span>{CHAINS[n.chainId]?.name ?? `chain ${n.chainId}`}</span>}
+    </div>
+  );
+}
+
+/** Bell + history drawer + toast stack for the app-wide notification store. */
+export default function NotificationCenter() {
+  const { history, toasts } = useNotifications();
+  const [open, setOpen] = useState(false);
+  const unread = history.filter((n) => !n.read).length;
+
+  function toggle() {
+    if (!open) markAllRead();
+    setOpen((v) => !v);
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        className="relative px-2 py-1 rounded bg-neutral-800 hover:bg-neutral-700 text-sm"
+        onClick={toggle}
+        aria-label={`Notifications${unread ? ` (${unread} unread)` : ""}`}
+        title="Notifications"
+      >
+        🔔
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-rose-600 text-[10px] leading-[1.1rem] text-center">
+            {unread > 99 ? "99+" : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <aside
+          className="fixed top-14 right-0 bottom-0 w-full sm:w-96 z-50 bg-neutral-950/95 border-l border-neutral-800 flex flex-col"
+          aria-label="Notification history"
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-neutral-800">
+            <span className="font-medium">Notifications</span>
+            <div className="flex gap-2">
+              <button
+                className="text-xs px-2 py-1 rounded bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50"
+                onClick={clearNotices}
+                disabled={!history.length}
+              >
+                Clear all
+              </button>
+              <button
+                className="text-xs px-2 py-1 rounded bg-neutral-800 hover:bg-neutral-700"
+                onClick={() => setOpen(false)}
+              >
+                Close
+              </button>
+            </div>
+          </div>
+          <ul className="flex-1 overflow-y-auto divide-y divide-neutral-800">
+            {history.length === 0 && <li className="px-4 py-6 text-sm text-neutral-400">Nothing yet.</li>}
+            {history.map((n) => (
+              <li key={n.id} className="px-4 py-2 text-sm flex gap-2">
+                <span className={`mt-1.5 w-2 h-2 shrink-0 rounded-full ${tone[n.severity].dot}`} />
+                <div className="flex-1 min-w-0">
+                  <div className="break-words">{n.message}</div>
+                  <Meta n={n} />
+                  <div className="text-[11px] opacity-50 mt-0.5">
+                    {new Date(n.createdAt).toLocaleString()}
+                    {n.source ? ` · ${n.source}` : ""}
+                  </div>
+                </div>
+                <button
+                  className="self-start text-xs opacity-50 hover:opacity-100"
+                  onClick={() => removeNotice(n.id)}
+                  aria-label="Remove"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        </aside>
+      )}
+
+      {/* toasts */}
+      {!!toasts.length && (
+        <div className="fixed bottom-4 right-4 space-y-2 z-50 max-w-sm" aria-live="polite">
+          {toasts.map((t) => (
+            <div
+              key={t.id}
+              role={t.severity === "error" ? "alert" : "status"}
+              className={`px-3 py-2 rounded shadow border text-sm flex gap-2 ${tone[t.severity].box}`}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="break-words">{t.message}</div>
+                <Meta n={t} />
+              </div>
+              <button
+                className="self-start text-xs opacity-60 hover:opacity-100"
+                onClick={() => dismiss(t.id)}
+                aria-label="Dismiss"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,167 @@
+// src/components/OfflineTxPanel.tsx
+import { useEffect, useMemo, useState } from "react";
+import { ethers } from "ethers";
+import QRCode from "qrcode";
+import Address from "./Address";
+import { downloadText } from "../lib/download";
+import {
+  broadcastSignedTx,
+  describeIntent,
+  extractRawTx,
+  verifySignedTx,
+  type UnsignedTxPayload,
+} from "../lib/offlineTx";
+import { errorMessage } from "../lib/errors";
+import { notifier } from "../lib/notifications";
+
+type Props = {
+  payload: UnsignedTxPayload;
+  readProvider: ethers.Provider;
+  onBroadcast: (tx: ethers.TransactionResponse) => void;
+  onCancel: () => void;
+};
+
+/** Unsigned tx for an offline signer (JSON/QR) and the way back: paste, verify, broadcast. */
+export default function OfflineTxPanel({ payload, readProvider, onBroadcast, onCancel }: Props) {
+  const note = notifier("Offline signing", { chainId: payload.chainId, safe: payload.safe, owner: payload.from });
+
+  const json = JSON.stringify(payload, null, 2);
+  const [qr, setQr] = useState<string>("");
+  const [raw, setRaw] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let stop = false;
+    QRCode.toDataURL(JSON.stringify(payload), { errorCorrectionLevel: "L", margin: 1, width: 320 })
+      .then((url) => !stop && setQr(url))
+      .catch(() => !stop && setQr("")); // too large for a QR code: JSON only
+    return () => {
+      stop = true;
+    };
+  }, [payload]);
+
+  // Verify as soon as something is pasted
+  const check = useMemo(() => {
+    if (!raw.trim()) return null;
+    try {
+      const { warnings } = verifySignedTx(payload, extractRawTx(raw));
+      return { ok: true as const, warnings };
+    } catch (e) {
+      return { ok: false as const, error: errorMessage(e) };
+    }
+  }, [raw, payload]);
+
+  async function copy(text: string, label: string) {
+    try {
+      await navigator.clipboard.writeText(text);
+      note(`${label} copied`, "success");
+    } catch {
+      note(`Can't copy ${label}`, "error");
+    }
+  }
+
+  async function broadcast() {
+    try {
+      setBusy(true);
+      const signed = extractRawTx(raw);
+      verifySignedTx(payload, signed); // re-check the exact bytes we send
+      onBroadcast(await broadcastSignedTx(readProvider, signed));
+    } catch (e) {
+      note(errorMessage(e, "Broadcast failed"), "error");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const fee = payload.tx.maxFeePerGas ?? payload.tx.gasPrice ?? "0";
+
+  return (
+    <div className="rounded-xl border border-sky-800/60 bg-sky-950/20 p-3 space-y-3 text-sm">
+      <div className="font-medium">Offline signing</div>
+
+      <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+        <span className="opacity-70">Signer</span>
+        <span>
+          <Address addr={payload.from} variant="ghost" chainId={payload.chainId} />
+        </span>
+        <span className="opacity-70">Call</span>
+        <span className="font-mono break-all">{describeIntent(payload.intent)}</span>
+        <span className="opacity-70">To (module)</span>
+        <span>
+          <Address addr={payload.tx.to} variant="ghost" chainId={payload.chainId} />
+        </span>
+        <span className="opacity-70">Nonce · gas</span>
+        <span>
+          {payload.tx.nonce} · {payload.tx.gasLimit} @ {ethers.formatUnits(fee, "gwei")} gwei
+          {payload.tx.type === 2 ? " max" : ""}
+        </span>
+      </div>
+
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start">
+        {qr && <img src={qr} alt="Unsigned transaction QR" className="w-40 h-40 rounded bg-white p-1" />}
+        <div className="flex-1 space-y-2">
+          <div className="text-xs opacity-70">
+            Move this to the offline machine (file or QR), sign it there, and bring back the signed raw
+            transaction. The nonce is fixed: sign before sending anything else from this address.
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700 text-xs"
+              onClick={() =>
+                downloadText(
+                  `heirsafe-unsigned-${payload.intent.action}-${payload.tx.nonce}.json`,
+                  json,
+                  "application/json"
+                )
+              }
+            >
+              Download JSON
+            </button>
+            <button className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700 text-xs" onClick={() => copy(json, "Unsigned JSON")}>
+              Copy JSON
+            </button>
+            <button
+              className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700 text-xs"
+              onClick={() => copy(payload.unsigned, "Unsigned hex")}
+              title="RLP-encoded unsigned transaction"
+            >
+              Copy unsigned hex
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <textarea
+        className="w-full h-20 px-3 py-2 rounded bg-neutral-800 font-mono text-xs"
+        placeholder="Paste the signed raw transaction (0x…)"
+        value={raw}
+        onChange={(e) => setRaw(e.target.value)}
+      />
+
+      {check && !check.ok && <div className="text-xs text-rose-300">{check.error}</div>}
+      {check?.ok && (
+        <div className="text-xs text-emerald-300">
+          Signature and calldata match the prepared call.
+          {check.warnings.map((w) => (
+            <div key={w} className="text-amber-300">
+              {w}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          className="px-3 py-2 rounded bg-emerald-700 hover:bg-emerald-600 disabled:opacity-50"
+          onClick={broadcast}
+          disabled={busy || !check?.ok}
+        >
+          {busy ? "Broadcasting…" : "Broadcast"}
+        </button>
+        <button className="px-3 py-2 rounded bg-neutral-800 hover:bg-neutral-700" onClick={onCancel}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
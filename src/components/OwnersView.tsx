@@ -1,30 +1,58 @@
 // src/components/OwnersView.tsx
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { ethers } from "ethers";
 import Address from "./Address";
 import { useSafeApp } from "../lib/safeApp";
 import { HeirSafeModuleABI } from "../abi/HeirSafeModule";
-import { getOwners, computePrevOwner } from "../lib/safeHelpers";
+import { describeClaimError, previewClaim, sendClaim, type ClaimPreview as Preview } from "../lib/claim";
+import { useWalletAccount } from "../lib/useWalletAccount";
+import { readHeirRows } from "../lib/batchReads";
+import {
+  notificationsSupported,
+  requestNotificationPermission,
+  useActivationAlerts,
+} from "../lib/useActivationAlerts";
 import Countdown from "./Countdown";
+import HistoryPanel from "./HistoryPanel";
+import CalendarExport from "./CalendarExport";
+import ClaimPreview from "./ClaimPreview";
+import OfflineTxPanel from "./OfflineTxPanel";
+import AddressInput from "./AddressInput";
+import BeneficiaryReview from "./BeneficiaryReview";
+import KeyProofPanel from "./KeyProofPanel";
+import ActivationInput from "./ActivationInput";
+import { checkActivation, getActivationPolicy } from "../lib/activation";
+import { reviewBeneficiary, type BeneficiaryIssue } from "../lib/beneficiaryChecks";
+import { useAddressBook } from "../lib/addressBook";
+import { notifier } from "../lib/notifications";
+import { errorMessage } from "../lib/errors";
+import { useLatest } from "../lib/useLatest";
+import { onTxSettled, trackTx, useTrackedTxs } from "../lib/txTracker";
+import { buildUnsignedTx, type OfflineIntent, type UnsignedTxPayload } from "../lib/offlineTx";
+import { computePrevOwner } from "../lib/safeHelpers";
+import { CHAINS } from "../config/chains";
+import { fmtLocal, fmtUTC, localInputToUtcSeconds, toLocalInputValue } from "../lib/time";
+import { useTimeZonePrefs } from "../lib/useTimeZonePrefs";
+import TimeZonePicker from "./TimeZonePicker";
+import { getWalletSigner } from "../wallet/ethers";
+import { getRuntimeConfig } from "../config/runtime";
 
 type Props = {
   safeAddr: string;
   moduleAddr: string;
   readProvider: ethers.Provider | null;
   enabled?: boolean;
-  chainId?: number | null; // not used here; kept for prop-compat
+  chainId?: number | null; // labels the calendar export
+  factoryAddr?: string | null; // for the ModuleDeployed event in History
 };
 
-/** Tiny toast system (local to this component) */
-type Toast = { id: number; kind: "success" | "error" | "info"; msg: string };
-function useToasts() {
-  const [list, setList] = useState<Toast[]>([]);
-  function push(msg: string, kind: Toast["kind"] = "info", ttl = 4000) {
-    const id = Date.now() + Math.random();
-    setList((xs) => [...xs, { id, kind, msg }]);
-    setTimeout(() => setList((xs) => xs.filter((t) => t.id !== id)), ttl);
-  }
-  return { toasts: list, push };
+const ACTIVATION_POLICY = getActivationPolicy();
+const FEATURES = getRuntimeConfig().features;
+
+// Modules without removeBeneficiary() revert its estimate with no data (unknown selector)
+function isUnsupportedCall(e: unknown) {
+  const err = e as { code?: string; reason?: string | null; data?: string | null } | null;
+  return err?.code === "CALL_EXCEPTION" && !err.reason && (!err.data || err.data === "0x");
 }
 
 export default function OwnersView({
@@ -32,12 +60,15 @@ export default function OwnersView({
   moduleAddr,
   readProvider,
   enabled,
+  chainId,
+  factoryAddr,
 }: Props) {
   const { isSafeApp } = useSafeApp();
 
   type Row = { owner: string; beneficiary: string; ts: bigint };
   const [rows, setRows] = useState<Row[]>([]);
-  const [signerAddr, setSignerAddr] = useState<string>("");
+  const [moduleHasCode, setModuleHasCode] = useState(false);
+  const signerAddr = useWalletAccount(); // connected EOA (for actions)
   const [busyByOwner, setBusyByOwner] = useState<Record<string, boolean>>({});
   const [editing, setEditing] = useState<null | {
     mode: "set" | "prolong";
@@ -45,6 +76,21 @@ export default function OwnersView({
     beneficiary: string; // only for "set"
     dtLocal: string; // YYYY-MM-DDTHH:mm
   }>(null);
+  const { entries: book } = useAddressBook();
+  const [review, setReview] = useState<BeneficiaryIssue[] | null>(null);
+  const [reviewAck, setReviewAck] = useState(false);
+  const [proofOk, setProofOk] = useState(false);
+  const [claiming, setClaiming] = useState<null | {
+    owner: string;
+    heir: string;
+    preview: Preview | null; // null while loading
+    error?: string;
+  }>(null);
+  const [offlineTx, setOfflineTx] = useState<null | {
+    owner: string;
+    label: string;
+    payload: UnsignedTxPayload;
+  }>(null);
 
   // local clock tick (smooth countdown)
   const [nowSec, setNowSec] = useState(() => Math.floor(Date.now() / 1000));
@@ -66,46 +112,14 @@ export default function OwnersView({
     }
   }
 
-  // Helpers
-  const fmtUTC = (ts: bigint) =>
-    ts === 0n ? "—" : new Date(Number(ts) * 1000).toISOString();
-
-  const fmtLocal = (ts: bigint) => {
-    if (ts === 0n) return "—";
-    try {
-      return new Intl.DateTimeFormat(undefined, {
-        year: "numeric",
-        month: "2-digit",
-        day: "2-digit",
-        hour: "2-digit",
-        minute: "2-digit",
-        second: "2-digit",
-        hour12: false,
-        timeZoneName: "short",
-      }).format(new Date(Number(ts) * 1000));
-    } catch {
-      const d = new Date(Number(ts) * 1000);
-      return d.toLocaleString();
-    }
-  };
-
-  const toLocalInputValue = (ts: bigint) => {
-    if (ts === 0n) return "";
-    const d = new Date(Number(ts) * 1000);
-    const pad = (n: number) => String(n).padStart(2, "0");
-    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(
-      d.getHours()
-    )}:${pad(d.getMinutes())}`;
-  };
-
-  const localInputToUtcSeconds = (v: string) => {
-    const ms = Date.parse(v); // local time parsed as local
-    if (!Number.isFinite(ms)) throw new Error("Enter a valid date & time.");
-    return Math.floor(ms / 1000);
-  };
+  // Display/entry time zone ("" = browser local) + extra zones per row
+  const { zone, setZone, extra: extraZones, setExtra: setExtraZones } = useTimeZonePrefs();
+  const tz = zone || undefined;
+  // an open edit row was typed in the previous zone
+  useEffect(() => setEditing(null), [zone]);
 
   // Copy helpers
-  const { toasts, push } = useToasts();
+  const push = notifier("Owners & Heirs", { safe: safeAddr, chainId: chainId ?? undefined });
   async function copy(text: string, label: string) {
     try {
       await navigator.clipboard.writeText(text);
@@ -115,99 +129,54 @@ export default function OwnersView({
     }
   }
 
-  // Capture connected EOA (for actions) + react to wallet events
-  useEffect(() => {
-    const eth = (window as any).ethereum;
-    if (!eth) {
-      setSignerAddr("");
-      return;
-    }
-
-    let cancelled = false;
-
-    const updateFromWallet = async () => {
-      try {
-        const bp = new ethers.BrowserProvider(eth);
-        const s = await bp.getSigner().catch(() => null);
-        const addr = s ? await s.getAddress() : "";
-        if (!cancelled) setSignerAddr(addr);
-      } catch {
-        if (!cancelled) setSignerAddr("");
-      }
-    };
-
-    updateFromWallet();
-
-    const onAccountsChanged = (_accs: string[]) => updateFromWallet();
-    const onChainChanged = (_chainId: string) => updateFromWallet();
-
-    eth.on?.("accountsChanged", onAccountsChanged);
-    eth.on?.("chainChanged", onChainChanged);
-
-    return () => {
-      cancelled = true;
-      eth.removeListener?.("accountsChanged", onAccountsChanged);
-      eth.removeListener?.("chainChanged", onChainChanged);
-    };
-  }, []);
-
   // Load rows — owners first, enrich with module configs if code exists
-  async function loadRows() {
+  const loadRows = useCallback(async () => {
     try {
       if (!readProvider || !ethers.isAddress(safeAddr)) {
         setRows([]);
         return;
       }
 
-      // 1) Owners
-      const owners = await getOwners(readProvider as any, safeAddr);
-      let base: Row[] = owners.map((o) => ({
-        owner: o,
-        beneficiary: ethers.ZeroAddress,
-        ts: 0n,
-      }));
-
-      // 2) Module configs (only if module has code)
-      let hasModuleCode = false;
-      if (ethers.isAddress(moduleAddr)) {
-        const code = await (readProvider as any).getCode(moduleAddr);
-        hasModuleCode = !!code && code !== "0x";
-      }
-
-      if (hasModuleCode) {
-        const mod = new ethers.Contract(
-          moduleAddr,
-          HeirSafeModuleABI,
-          readProvider as any
-        );
-        base = await Promise.all(
-          base.map(async (r) => {
-            try {
-              // ← this is the important bit: read the current config
-              const cfg = await mod.heirConfigs(r.owner);
-              return {
-                owner: r.owner,
-                beneficiary: (cfg.beneficiary as string) || ethers.ZeroAddress,
-                ts: BigInt(cfg.activationTime),
-              };
-            } catch (e) {
-              console.debug("heirConfigs failed for", r.owner, e);
-              return r;
-            }
-          })
-        );
-      }
+      // Owners + every heirConfigs() — two round trips via Multicall3
+      const { rows: base, moduleHasCode: hasModuleCode } = await readHeirRows(readProvider, safeAddr, moduleAddr);
 
       setRows(base);
+      setModuleHasCode(hasModuleCode);
     } catch (err) {
       console.error("[OwnersView] loadRows error:", err);
     }
-  }
+  }, [readProvider, safeAddr, moduleAddr]);
 
   // Initial load & when deps change
   useEffect(() => {
     loadRows();
-  }, [safeAddr, moduleAddr, readProvider]);
+  }, [loadRows]);
+
+  // Re-read when a tracked tx for this Safe settles (also ones resumed after reload)
+  useEffect(
+    () =>
+      onTxSettled((t) => {
+        if (t.chainId === chainId && t.safe?.toLowerCase() === safeAddr.toLowerCase()) loadRows();
+      }),
+    [safeAddr, chainId, loadRows]
+  );
+
+  // Owners with a tx still in flight on this Safe stay busy across reloads
+  const tracked = useTrackedTxs();
+  const pendingOwners = useMemo(
+    () =>
+      new Set(
+        tracked
+          .filter(
+            (t) =>
+              t.status === "pending" &&
+              t.chainId === chainId &&
+              t.safe?.toLowerCase() === safeAddr.toLowerCase()
+          )
+          .map((t) => t.owner?.toLowerCase())
+      ),
+    [tracked, chainId, safeAddr]
+  );
 
   // Start/stop chain-time polling only when we need to “synchronize”
   const needsSync = useMemo(
@@ -252,34 +221,179 @@ export default function OwnersView({
     } catch {}
   }, [showUTC]);
 
+  // UI pref: browser notifications (opt-in) + warning window in days
+  const [notifyOn, setNotifyOn] = useState<boolean>(() => {
+    try {
+      return FEATURES.alerts && localStorage.getItem("heirsafe:notify") === "1";
+    } catch {
+      return false;
+    }
+  });
+  const [warnDays, setWarnDays] = useState<number>(() => {
+    try {
+      const v = Number(localStorage.getItem("heirsafe:notifyWarnDays"));
+      return Number.isFinite(v) && v > 0 ? v : 7;
+    } catch {
+      return 7;
+    }
+  });
+  useEffect(() => {
+    if (!FEATURES.alerts) return; // keep the stored pref while the deployment disables it
+    try {
+      localStorage.setItem("heirsafe:notify", notifyOn ? "1" : "0");
+      localStorage.setItem("heirsafe:notifyWarnDays", String(warnDays));
+    } catch {
+      /* storage blocked */
+    }
+  }, [notifyOn, warnDays]);
+
+  // UI pref: require the heir's signed key-control proof before "Set"
+  const [requireProof, setRequireProof] = useState<boolean>(() => {
+    try {
+      return FEATURES.heirProof && localStorage.getItem("heirsafe:requireHeirProof") === "1";
+    } catch {
+      return false;
+    }
+  });
+  useEffect(() => {
+    if (!FEATURES.heirProof) return;
+    try {
+      localStorage.setItem("heirsafe:requireHeirProof", requireProof ? "1" : "0");
+    } catch {
+      /* storage blocked */
+    }
+  }, [requireProof]);
+
+  // UI pref: build unsigned txs for an offline signer instead of using the wallet
+  const [offline, setOffline] = useState<boolean>(() => {
+    try {
+      return FEATURES.offlineSigning && localStorage.getItem("heirsafe:offlineSigning") === "1";
+    } catch {
+      return false;
+    }
+  });
+  useEffect(() => {
+    if (!FEATURES.offlineSigning) return;
+    try {
+      localStorage.setItem("heirsafe:offlineSigning", offline ? "1" : "0");
+    } catch {
+      /* storage blocked */
+    }
+  }, [offline]);
+
+  async function toggleNotify(on: boolean) {
+    if (!on) return setNotifyOn(false);
+    if (await requestNotificationPermission()) setNotifyOn(true);
+    else push("Notifications are blocked or unsupported in this browser", "error");
+  }
+
+  useActivationAlerts({ enabled: notifyOn, warnDays, chainId: chainId ?? null, safeAddr, rows, nowSec, chainTs });
+
+  // While alerts are on, re-read owners/configs so on-chain changes surface
+  useEffect(() => {
+    if (!notifyOn) return;
+    const id = setInterval(() => loadRows(), 60000);
+    return () => clearInterval(id);
+  }, [notifyOn, loadRows]);
+
   const canWriteGlobally =
     !!readProvider && ethers.isAddress(moduleAddr) && (enabled ?? true) && !isSafeApp;
 
+  function runReview(owner: string, beneficiary: string) {
+    return reviewBeneficiary({
+      provider: readProvider!,
+      safe: safeAddr,
+      module: moduleAddr,
+      owner,
+      owners: rows.map((r) => r.owner),
+      beneficiary,
+      book,
+    });
+  }
+
+  function activationBlocked(whenLocal: string) {
+    try {
+      const ts = localInputToUtcSeconds(whenLocal, tz);
+      return checkActivation(ts, nowSec, ACTIVATION_POLICY)?.level === "block";
+    } catch {
+      return true;
+    }
+  }
+
+  // Live risk review while typing a new beneficiary; reruns only when owner or beneficiary change
+  const reviewOwner = editing?.mode === "set" ? editing.owner : "";
+  const reviewTarget = editing?.mode === "set" ? editing.beneficiary : "";
+  const runReviewRef = useLatest(runReview);
+  useEffect(() => {
+    setReview(null);
+    setReviewAck(false);
+    if (!reviewOwner || !reviewTarget || !readProvider) return;
+    let stop = false;
+    const id = setTimeout(async () => {
+      try {
+        const issues = await runReviewRef.current(reviewOwner, reviewTarget);
+        if (!stop) setReview(issues);
+      } catch (e) {
+        console.debug("[OwnersView] beneficiary review failed:", e);
+      }
+    }, 300);
+    return () => {
+      stop = true;
+      clearTimeout(id);
+    };
+  }, [reviewOwner, reviewTarget, readProvider, runReviewRef]);
+
+  // Connected wallet signer; when `expected` is given it must be the connected account
+  async function walletSigner(expected?: string) {
+    const signer = await getWalletSigner();
+    if (expected && (await signer.getAddress()).toLowerCase() !== expected.toLowerCase())
+      throw new Error(`Connect as owner ${expected}`);
+    return signer;
+  }
+
+  // Offline mode: build the unsigned tx (nonce/gas/fees from the read provider) and show it
+  async function prepareOffline(owner: string, from: string, label: string, intent: OfflineIntent) {
+    if (!readProvider || chainId == null) throw new Error("No network");
+    const payload = await buildUnsignedTx(readProvider, chainId, safeAddr, moduleAddr, from, intent);
+    setEditing(null);
+    setClaiming(null);
+    setOfflineTx({ owner, label, payload });
+  }
+
   // Actions
   async function doSet(owner: string, beneficiary: string, whenLocal: string) {
     try {
       setBusyByOwner((m) => ({ ...m, [owner]: true }));
-      const eth = (window as any).ethereum;
-      if (!eth) throw new Error("No wallet detected");
-      const bp = new ethers.BrowserProvider(eth);
-      const signer = await bp.getSigner();
-      if ((await signer.getAddress()).toLowerCase() !== owner.toLowerCase())
-        throw new Error(`Connect as owner ${owner}`);
       if (!ethers.isAddress(beneficiary)) throw new Error("Invalid beneficiary");
 
-      const ts = localInputToUtcSeconds(whenLocal);
-      if (ts <= Math.floor(Date.now() / 1000))
-        throw new Error("Activation must be in the future");
+      // Re-check right before sending (the live review may be stale)
+      const issues = await runReview(owner, beneficiary);
+      const blocker = issues.find((i) => i.level === "block");
+      if (blocker) throw new Error(blocker.msg);
+      if (issues.some((i) => i.level === "warn") && !reviewAck)
+        throw new Error("Review the beneficiary warnings and confirm the address first");
+      if (requireProof && !proofOk)
+        throw new Error("Verify the heir's key-control signature first");
+
+      const ts = localInputToUtcSeconds(whenLocal, tz);
+      const issue = checkActivation(ts, Math.floor(Date.now() / 1000), ACTIVATION_POLICY);
+      if (issue?.level === "block") throw new Error(issue.msg);
+
+      if (offline) {
+        return await prepareOffline(owner, owner, "Set beneficiary", {
+          action: "setBeneficiary",
+          beneficiary: ethers.getAddress(beneficiary),
+          activationTime: String(ts),
+        });
+      }
 
+      const signer = await walletSigner(owner);
       const mod = new ethers.Contract(moduleAddr, HeirSafeModuleABI, signer);
       const tx = await mod.setBeneficiary(beneficiary, ts);
-      push("Beneficiary set — awaiting confirmation…", "info");
-      await tx.wait();
-      push("Beneficiary set ✅", "success");
-      setEditing(null);
-      await loadRows();
+      const t = await trackTx(tx, { label: "Set beneficiary", safe: safeAddr, owner });
+      if (t.status === "mined") setEditing(null);
     } catch (e: any) {
-      push(e?.reason || e?.message || "Error setting beneficiary", "error");
+      push(e?.reason || e?.message || "Error setting beneficiary", "error", { owner });
     } finally {
       setBusyByOwner((m) => ({ ...m, [owner]: false }));
     }
@@ -288,26 +402,25 @@ export default function OwnersView({
   async function doProlong(owner: string, whenLocal: string) {
     try {
       setBusyByOwner((m) => ({ ...m, [owner]: true }));
-      const eth = (window as any).ethereum;
-      if (!eth) throw new Error("No wallet detected");
-      const bp = new ethers.BrowserProvider(eth);
-      const signer = await bp.getSigner();
-      if ((await signer.getAddress()).toLowerCase() !== owner.toLowerCase())
-        throw new Error(`Connect as owner ${owner}`);
 
-      const ts = localInputToUtcSeconds(whenLocal);
-      if (ts <= Math.floor(Date.now() / 1000))
-        throw new Error("Activation must be in the future");
+      const ts = localInputToUtcSeconds(whenLocal, tz);
+      const issue = checkActivation(ts, Math.floor(Date.now() / 1000), ACTIVATION_POLICY);
+      if (issue?.level === "block") throw new Error(issue.msg);
+
+      if (offline) {
+        return await prepareOffline(owner, owner, "Activation time update", {
+          action: "setActivationTime",
+          activationTime: String(ts),
+        });
+      }
 
+      const signer = await walletSigner(owner);
       const mod = new ethers.Contract(moduleAddr, HeirSafeModuleABI, signer);
       const tx = await mod.setActivationTime(ts);
-      push("Activation time updated — awaiting confirmation…", "info");
-      await tx.wait();
-      push("Activation time updated ✅", "success");
-      setEditing(null);
-      await loadRows();
+      const t = await trackTx(tx, { label: "Activation time update", safe: safeAddr, owner });
+      if (t.status === "mined") setEditing(null);
     } catch (e: any) {
-      push(e?.reason || e?.message || "Error updating activation", "error");
+      push(e?.reason || e?.message || "Error updating activation", "error", { owner });
     } finally {
       setBusyByOwner((m) => ({ ...m, [owner]: false }));
     }
@@ -317,13 +430,19 @@ export default function OwnersView({
     try {
       if (!confirm("Remove beneficiary and activation time?")) return;
       setBusyByOwner((m) => ({ ...m, [owner]: true }));
-      const eth = (window as any).ethereum;
-      if (!eth) throw new Error("No wallet detected");
-      const bp = new ethers.BrowserProvider(eth);
-      const signer = await bp.getSigner();
-      if ((await signer.getAddress()).toLowerCase() !== owner.toLowerCase())
-        throw new Error(`Connect as owner ${owner}`);
 
+      if (offline) {
+        // Fall back to setBeneficiary(0,0) only when the module lacks removeBeneficiary()
+        const zero = { action: "setBeneficiary", beneficiary: ethers.ZeroAddress, activationTime: "0" } as const;
+        try {
+          return await prepareOffline(owner, owner, "Beneficiary removal", { action: "removeBeneficiary" });
+        } catch (e) {
+          if (!isUnsupportedCall(e)) throw e;
+          return await prepareOffline(owner, owner, "Beneficiary removal", zero);
+        }
+      }
+
+      const signer = await walletSigner(owner);
       const mod = new ethers.Contract(moduleAddr, HeirSafeModuleABI, signer);
 
       // Prefer new removeBeneficiary(), fallback to setBeneficiary(0,0)
@@ -334,42 +453,45 @@ export default function OwnersView({
       } catch {
         tx = await mod.setBeneficiary(ethers.ZeroAddress, 0);
       }
-      push("Removing beneficiary…", "info");
-      await tx.wait();
-      push("Beneficiary removed ✅", "success");
-      await loadRows();
+      await trackTx(tx, { label: "Beneficiary removal", safe: safeAddr, owner });
     } catch (e: any) {
-      push(e?.reason || e?.message || "Error removing beneficiary", "error");
+      push(e?.reason || e?.message || "Error removing beneficiary", "error", { owner });
     } finally {
       setBusyByOwner((m) => ({ ...m, [owner]: false }));
     }
   }
 
-  async function doClaim(owner: string) {
+  async function openClaimPreview(owner: string, heir: string) {
+    setEditing(null);
+    setOfflineTx(null);
+    setClaiming({ owner, heir, preview: null });
+    try {
+      if (!readProvider || !heir) throw new Error("Connect the beneficiary wallet");
+      const preview = await previewClaim(readProvider, safeAddr, moduleAddr, owner, heir);
+      setClaiming((st) => (st && st.owner === owner ? { ...st, preview } : st));
+    } catch (e) {
+      const error = errorMessage(e, "Could not preview claim");
+      setClaiming((st) => (st && st.owner === owner ? { ...st, preview: null, error } : st));
+    }
+  }
+
+  async function doClaim(owner: string, heir: string) {
     try {
       setBusyByOwner((m) => ({ ...m, [owner]: true }));
-      const eth = (window as any).ethereum;
-      if (!eth) throw new Error("No wallet detected");
-      const bp = new ethers.BrowserProvider(eth);
-      const signer = await bp.getSigner();
 
-      const prev = await computePrevOwner(readProvider as any, safeAddr, owner);
-      const mod = new ethers.Contract(moduleAddr, HeirSafeModuleABI, signer);
+      if (!readProvider) throw new Error("No network");
 
-      // Preflight: revert early if would fail
-      try {
-        await mod.claimSafe.staticCall(owner, prev);
-      } catch (e: any) {
-        throw new Error(e?.reason || e?.message || "Claim would revert");
+      if (offline) {
+        const prevOwner = await computePrevOwner(readProvider, safeAddr, owner);
+        return await prepareOffline(owner, heir, "Claim", { action: "claimSafe", owner, prevOwner });
       }
 
-      const tx = await mod.claimSafe(owner, prev);
-      push("Claim submitted — awaiting confirmation…", "info");
-      await tx.wait();
-      push("Claim successful ✅", "success");
-      await loadRows();
+      const signer = await walletSigner();
+      const tx = await sendClaim(signer, readProvider, safeAddr, moduleAddr, owner);
+      const t = await trackTx(tx, { label: "Claim", safe: safeAddr, owner });
+      if (t.status === "mined") setClaiming(null);
     } catch (e: any) {
-      push(e?.reason || e?.message || "Error claiming Safe", "error");
+      push(describeClaimError(e, "Error claiming Safe"), "error", { owner });
     } finally {
       setBusyByOwner((m) => ({ ...m, [owner]: false }));
     }
@@ -385,16 +507,77 @@ export default function OwnersView({
       <div className="flex items-start justify-between gap-3">
         <h2 id="owners-title" className="font-semibold">Owners & Heirs</h2>
 
-        {/* UTC toggle */}
-        <label className="flex items-center gap-2 text-xs opacity-80 select-none">
-          <input
-            type="checkbox"
-            className="accent-neutral-400"
-            checked={showUTC}
-            onChange={(e) => setShowUTC(e.target.checked)}
+        <div className="flex flex-wrap items-center justify-end gap-3">
+          <CalendarExport
+            safeAddr={safeAddr}
+            chainName={chainId != null ? CHAINS[chainId]?.name : undefined}
+            rows={rows}
+          />
+
+          <TimeZonePicker
+            zone={zone}
+            extra={extraZones}
+            onZone={setZone}
+            onExtra={setExtraZones}
           />
-          Show UTC line
-        </label>
+
+          {/* UTC toggle */}
+          <label className="flex items-center gap-2 text-xs opacity-80 select-none">
+            <input
+              type="checkbox"
+              className="accent-neutral-400"
+              checked={showUTC}
+              onChange={(e) => setShowUTC(e.target.checked)}
+            />
+            Show UTC line
+          </label>
+
+          {/* Air-gapped signing */}
+          {FEATURES.offlineSigning && (
+            <label
+              className="flex items-center gap-2 text-xs opacity-80 select-none"
+              title="Build unsigned transactions for a key on an offline machine, then broadcast the signed result"
+            >
+              <input
+                type="checkbox"
+                className="accent-neutral-400"
+                checked={offline}
+                onChange={(e) => {
+                  setOffline(e.target.checked);
+                  setOfflineTx(null);
+                }}
+              />
+              Offline signing
+            </label>
+          )}
+
+          {/* Browser notifications */}
+          {FEATURES.alerts && notificationsSupported() && (
+            <label className="flex items-center gap-2 text-xs opacity-80 select-none">
+              <input
+                type="checkbox"
+                className="accent-neutral-400"
+                checked={notifyOn}
+                onChange={(e) => toggleNotify(e.target.checked)}
+              />
+              Alerts
+              {notifyOn && (
+                <>
+                  <input
+                    type="number"
+                    min={1}
+                    max={365}
+                    className="w-14 px-1 py-0.5 rounded bg-neutral-800"
+                    value={warnDays}
+                    onChange={(e) => setWarnDays(Math.max(1, Number(e.target.value) || 1))}
+                    title="Warn this many days before activation"
+                  />
+                  d before
+                </>
+              )}
+            </label>
+          )}
+        </div>
       </div>
 
       {/* IMPORTANT: no “Safe verified …” badges here anymore */}
@@ -426,7 +609,9 @@ export default function OwnersView({
               </tr>
             ) : (
               rows.map((r) => {
-                const rowBusy = !!busyByOwner[r.owner?.toLowerCase?.() ?? r.owner];
+                const rowBusy =
+                  !!busyByOwner[r.owner?.toLowerCase?.() ?? r.owner] ||
+                  pendingOwners.has(r.owner.toLowerCase());
 
                 const isOwnerSigner =
                   signerAddr && signerAddr.toLowerCase() === r.owner.toLowerCase();
@@ -441,16 +626,26 @@ export default function OwnersView({
                 const onChainReady = chainTs >= tsNum;
 
                 const disableRowActions =
-                  !canWriteGlobally || !isOwnerSigner || rowBusy;
+                  !canWriteGlobally || !(isOwnerSigner || offline) || rowBusy;
+
+                // Offline, the heir signs elsewhere: prepare the claim for the current beneficiary
+                const claimAs = offline
+                  ? r.beneficiary !== ethers.ZeroAddress
+                    ? r.beneficiary
+                    : null
+                  : signerIsBeneficiary
+                  ? signerAddr
+                  : null;
 
-                const disableClaim =
-                  !canWriteGlobally || !signerIsBeneficiary || !onChainReady || rowBusy;
+                const disableClaim = !canWriteGlobally || !claimAs || !onChainReady || rowBusy;
 
                 const showSet = r.beneficiary === ethers.ZeroAddress;
                 const showProlong = r.beneficiary !== ethers.ZeroAddress;
                 const showRemove = r.beneficiary !== ethers.ZeroAddress;
 
                 const isEditingRow = editing && editing.owner === r.owner;
+                const isClaimingRow = claiming && claiming.owner === r.owner;
+                const isOfflineRow = offlineTx && offlineTx.owner === r.owner;
 
                 return (
                   <>
@@ -464,15 +659,28 @@ export default function OwnersView({
                       <td className="py-2 pr-4">
                         {r.ts !== 0n && (
                           <div className="flex flex-col" title={fmtUTC(r.ts)}>
-                            {/* 1) Local first */}
+                            {/* 1) Chosen zone first (browser local by default) */}
                             <button
                               type="button"
                               className="text-left text-xs opacity-80 hover:opacity-100 hover:underline underline-offset-2"
-                              onClick={() => copy(fmtLocal(r.ts), "Local time")}
+                              onClick={() => copy(fmtLocal(r.ts, tz), zone || "Local time")}
                             >
-                              {fmtLocal(r.ts)}
+                              {fmtLocal(r.ts, tz)}
                             </button>
 
+                            {/* 1b) Extra zones */}
+                            {extraZones.map((z) => (
+                              <button
+                                key={z}
+                                type="button"
+                                className="text-left text-[11px] opacity-70 hover:opacity-100 hover:underline underline-offset-2"
+                                onClick={() => copy(fmtLocal(r.ts, z), z)}
+                                title={z}
+                              >
+                                {fmtLocal(r.ts, z)}
+                              </button>
+                            ))}
+
                             {/* 2) Countdown (local) OR Synchronizing… OR Available */}
                             <div className="mt-1">
                               {localFuture ? (
@@ -517,7 +725,7 @@ export default function OwnersView({
                                   ? "Module must be enabled"
                                   : isSafeApp
                                   ? "Disabled in Safe App"
-                                  : !isOwnerSigner
+                                  : !isOwnerSigner && !offline
                                   ? "Connect the owner’s wallet"
                                   : undefined
                               }
@@ -533,7 +741,7 @@ export default function OwnersView({
                                   mode: "prolong",
                                   owner: r.owner,
                                   beneficiary: r.beneficiary,
-                                  dtLocal: toLocalInputValue(r.ts) || "",
+                                  dtLocal: toLocalInputValue(r.ts, tz) || "",
                                 })
                               }
                               disabled={disableRowActions}
@@ -550,10 +758,10 @@ export default function OwnersView({
                               {rowBusy ? "…" : "Remove"}
                             </button>
                           )}
-                          {signerIsBeneficiary && (
+                          {claimAs && (
                             <button
                               className="px-2 py-1 rounded bg-amber-700 hover:bg-amber-600 disabled:opacity-50"
-                              onClick={() => doClaim(r.owner)}
+                              onClick={() => openClaimPreview(r.owner, claimAs)}
                               disabled={disableClaim}
                               title={
                                 !enabled
@@ -579,47 +787,48 @@ export default function OwnersView({
                             {editing.mode === "set" && (
                               <div className="flex flex-col gap-1">
                                 <label className="text-xs opacity-70">Beneficiary</label>
-                                <input
+                                <AddressInput
                                   className="px-3 py-2 rounded bg-neutral-800 min-w-[24rem]"
-                                  placeholder="0x… beneficiary"
+                                  placeholder="0x… beneficiary or ENS name"
                                   value={editing.beneficiary}
-                                  onChange={(e) =>
-                                    setEditing((st) =>
-                                      st && { ...st, beneficiary: e.target.value.trim() }
-                                    )
+                                  onChange={(v) =>
+                                    setEditing((st) => st && { ...st, beneficiary: v })
                                   }
                                 />
                               </div>
                             )}
 
-                            <div className="flex flex-col gap-1">
-                              <label className="text-xs opacity-70">Activation (local)</label>
-                              <input
-                                type="datetime-local"
-                                className="px-3 py-2 rounded bg-neutral-800"
-                                value={editing.dtLocal}
-                                onChange={(e) =>
-                                  setEditing((st) =>
-                                    st && { ...st, dtLocal: e.target.value }
-                                  )
-                                }
-                              />
-                            </div>
+                            <ActivationInput
+                              mode={editing.mode}
+                              value={editing.dtLocal}
+                              current={r.ts}
+                              policy={ACTIVATION_POLICY}
+                              timeZone={tz}
+                              nowSec={nowSec}
+                              onChange={(v) => setEditing((st) => st && { ...st, dtLocal: v })}
+                            />
 
                             <div className="flex gap-2">
                               {editing.mode === "set" ? (
                                 <button
-                                  className="px-3 py-2 rounded bg-emerald-700 hover:bg-emerald-600"
+                                  className="px-3 py-2 rounded bg-emerald-700 hover:bg-emerald-600 disabled:opacity-50"
                                   onClick={() =>
                                     doSet(editing.owner, editing.beneficiary, editing.dtLocal)
                                   }
+                                  disabled={
+                                    !!review?.some((i) => i.level === "block") ||
+                                    (!!review?.some((i) => i.level === "warn") && !reviewAck) ||
+                                    (requireProof && !proofOk) ||
+                                    activationBlocked(editing.dtLocal)
+                                  }
                                 >
                                   Save
                                 </button>
                               ) : (
                                 <button
-                                  className="px-3 py-2 rounded bg-sky-700 hover:bg-sky-600"
+                                  className="px-3 py-2 rounded bg-sky-700 hover:bg-sky-600 disabled:opacity-50"
                                   onClick={() => doProlong(editing.owner, editing.dtLocal)}
+                                  disabled={activationBlocked(editing.dtLocal)}
                                 >
                                   Save
                                 </button>
@@ -633,6 +842,80 @@ export default function OwnersView({
                               </button>
                             </div>
                           </div>
+
+                          {editing.mode === "set" && !!editing.beneficiary && (
+                            <div className="mt-2">
+                              <BeneficiaryReview
+                                issues={review}
+                                acknowledged={reviewAck}
+                                onAcknowledge={setReviewAck}
+                              />
+                            </div>
+                          )}
+
+                          {editing.mode === "set" && FEATURES.heirProof && (
+                            <div className="mt-3 space-y-2">
+                              <label className="flex items-center gap-2 text-xs opacity-80 select-none">
+                                <input
+                                  type="checkbox"
+                                  className="accent-neutral-400"
+                                  checked={requireProof}
+                                  onChange={(e) => setRequireProof(e.target.checked)}
+                                />
+                                Require the heir to prove key control (signed message)
+                              </label>
+                              {requireProof &&
+                                (ethers.isAddress(editing.beneficiary) &&
+                                chainId != null &&
+                                readProvider ? (
+                                  <KeyProofPanel
+                                    chainId={chainId}
+                                    safe={safeAddr}
+                                    owner={editing.owner}
+                                    beneficiary={editing.beneficiary}
+                                    readProvider={readProvider}
+                                    onVerified={setProofOk}
+                                  />
+                                ) : (
+                                  <div className="text-xs opacity-60">
+                                    Enter the beneficiary to create a challenge.
+                                  </div>
+                                ))}
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+
+                    {isClaimingRow && (
+                      <tr key={`${r.owner}:claim`} className="border-t border-neutral-800">
+                        <td colSpan={4} className="py-3">
+                          <ClaimPreview
+                            owner={r.owner}
+                            heir={claiming.heir}
+                            preview={claiming.preview}
+                            error={claiming.error}
+                            busy={rowBusy}
+                            onConfirm={() => doClaim(r.owner, claiming.heir)}
+                            onCancel={() => setClaiming(null)}
+                          />
+                        </td>
+                      </tr>
+                    )}
+
+                    {isOfflineRow && readProvider && (
+                      <tr key={`${r.owner}:offline`} className="border-t border-neutral-800">
+                        <td colSpan={4} className="py-3">
+                          <OfflineTxPanel
+                            payload={offlineTx.payload}
+                            readProvider={readProvider}
+                            onBroadcast={(tx) => {
+                              const { label } = offlineTx;
+                              setOfflineTx(null);
+                              trackTx(tx, { label, safe: safeAddr, owner: r.owner });
+                            }}
+                            onCancel={() => setOfflineTx(null)}
+                          />
                         </td>
                       </tr>
                     )}
@@ -644,24 +927,14 @@ export default function OwnersView({
         </table>
       </div>
 
-      {/* local toasts */}
-      {!!toasts.length && (
-        <div className="fixed bottom-4 right-4 space-y-2 z-50">
-          {toasts.map((t) => (
-            <div
-              key={t.id}
-              className={`px-3 py-2 rounded shadow border text-sm ${
-                t.kind === "error"
-                  ? "bg-rose-900/60 border-rose-800 text-rose-100"
-                  : t.kind === "success"
-                  ? "bg-emerald-900/60 border-emerald-800 text-emerald-100"
-                  : "bg-neutral-900/60 border-neutral-800 text-neutral-100"
-              }`}
-            >
-              {t.msg}
-            </div>
-          ))}
-        </div>
+      {moduleHasCode && (
+        <HistoryPanel
+          safeAddr={safeAddr}
+          moduleAddr={moduleAddr}
+          factoryAddr={factoryAddr}
+          readProvider={readProvider}
+          owners={rows.map((r) => r.owner)}
+        />
       )}
     </section>
   );
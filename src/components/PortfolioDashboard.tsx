@@ -0,0 +1,259 @@
+// src/components/PortfolioDashboard.tsx
+import { useCallback, useEffect, useState } from "react";
+import { ethers } from "ethers";
+import Address from "./Address";
+import { CHAINS, SUPPORTED_CHAIN_IDS } from "../config/chains";
+import { fmtLocal, fmtUTC } from "../lib/time";
+import {
+  loadWatchlist,
+  readSafeSummary,
+  saveWatchlist,
+  sameEntry,
+  type SafeSummary,
+  type WatchEntry,
+} from "../lib/portfolio";
+
+type Props = {
+  currentSafe: string;
+  currentChainId: number | null;
+  onOpen: (e: WatchEntry) => void;
+};
+
+const keyOf = (e: WatchEntry) => `${e.chainId}:${e.safe.toLowerCase()}`;
+
+function relative(ts: bigint) {
+  const d = Number(ts) - Math.floor(Date.now() / 1000);
+  if (d <= 0) return "due";
+  const days = Math.floor(d / 86400);
+  if (days > 0) return `in ${days}d`;
+  const hours = Math.floor(d / 3600);
+  return hours > 0 ? `in ${hours}h` : `in ${Math.ceil(d / 60)}m`;
+}
+
+/** Labeled watch list of (chain, Safe) pairs with module state and nearest activation. */
+export default function PortfolioDashboard({ currentSafe, currentChainId, onOpen }: Props) {
+  const [list, setList] = useState<WatchEntry[]>(() => loadWatchlist());
+  const [summaries, setSummaries] = useState<Record<string, SafeSummary | "loading">>({});
+  const [open, setOpen] = useState<boolean>(() => loadWatchlist().length > 0);
+
+  const [draft, setDraft] = useState<{ label: string; safe: string; chainId: number }>(() => ({
+    label: "",
+    safe: "",
+    chainId: currentChainId ?? SUPPORTED_CHAIN_IDS[0],
+  }));
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => saveWatchlist(list), [list]);
+
+  const refresh = useCallback(async (entries: WatchEntry[] = list) => {
+    setSummaries((m) => {
+      const next = { ...m };
+      for (const e of entries) next[keyOf(e)] = "loading";
+      return next;
+    });
+    await Promise.all(
+      entries.map(async (e) => {
+        const s = await readSafeSummary(e);
+        setSummaries((m) => ({ ...m, [keyOf(e)]: s }));
+      })
+    );
+  }, [list]);
+
+  // Load once when first opened
+  const [loaded, setLoaded] = useState(false);
+  useEffect(() => {
+    if (open && !loaded) {
+      setLoaded(true);
+      refresh();
+    }
+  }, [open, loaded, refresh]);
+
+  function add(entry: WatchEntry) {
+    setError("");
+    if (!ethers.isAddress(entry.safe)) return setError("Enter a valid Safe address");
+    const e = { ...entry, safe: ethers.getAddress(entry.safe), label: entry.label.trim() };
+    if (list.some((x) => sameEntry(x, e))) return setError("Already in the watch list");
+    setList((xs) => [...xs, e]);
+    setDraft((d) => ({ ...d, label: "", safe: "" }));
+    refresh([e]);
+  }
+
+  function remove(e: WatchEntry) {
+    setList((xs) => xs.filter((x) => !sameEntry(x, e)));
+  }
+
+  function rename(e: WatchEntry, label: string) {
+    setList((xs) => xs.map((x) => (sameEntry(x, e) ? { ...x, label } : x)));
+  }
+
+  const canAddCurrent =
+    currentChainId != null &&
+    ethers.isAddress(currentSafe) &&
+    !list.some((x) => sameEntry(x, { chainId: currentChainId, safe: currentSafe }));
+
+  return (
+    <details
+      open={open}
+      onToggle={(e) => setOpen((e.target as HTMLDetailsElement).open)}
+      className="rounded-2xl bg-neutral-900/70 border border-neutral-800"
+    >
+      <summary className="list-none cursor-pointer select-none px-4 py-3 flex items-center justify-between">
+        <span className="font-medium">
+          Portfolio{list.length ? ` · ${list.length} Safe${list.length !== 1 ? "s" : ""}` : ""}
+        </span>
+        <span className={`transition-transform ${open ? "rotate-180" : ""}`}>▼</span>
+      </summary>
+
+      <div className="px-4 pb-4 space-y-3">
+        {list.length > 0 && (
+          <div className="overflow-x-auto -mx-2 md:mx-0">
+            <table className="min-w-full text-sm">
+              <thead className="text-neutral-300">
+                <tr className="border-b border-neutral-800">
+                  <th className="text-left font-medium py-2 pr-4">Label</th>
+                  <th className="text-left font-medium py-2 pr-4">Network</th>
+                  <th className="text-left font-medium py-2 pr-4">Safe</th>
+                  <th className="text-left font-medium py-2 pr-4">Module</th>
+                  <th className="text-left font-medium py-2 pr-4">Heirs</th>
+                  <th className="text-left font-medium py-2 pr-4">Nearest activation</th>
+                  <th className="text-left font-medium py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {list.map((e) => {
+                  const s = summaries[keyOf(e)];
+                  const isCurrent =
+                    e.chainId === currentChainId &&
+                    e.safe.toLowerCase() === currentSafe.toLowerCase();
+                  return (
+                    <tr
+                      key={keyOf(e)}
+                      className={`border-t border-neutral-800 align-top cursor-pointer hover:bg-neutral-800/30 ${
+                        isCurrent ? "bg-neutral-800/40" : ""
+                      }`}
+                      onClick={() => onOpen(e)}
+                    >
+                      <td className="py-2 pr-4" onClick={(ev) => ev.stopPropagation()}>
+                        <input
+                          className="w-32 px-2 py-1 rounded bg-transparent hover:bg-neutral-800 focus:bg-neutral-800"
+                          value={e.label}
+                          placeholder="Label"
+                          onChange={(ev) => rename(e, ev.target.value)}
+                        />
+                      </td>
+                      <td className="py-2 pr-4">{CHAINS[e.chainId]?.name ?? `Chain ${e.chainId}`}</td>
+                      <td className="py-2 pr-4" onClick={(ev) => ev.stopPropagation()}>
+                        <Address addr={e.safe} variant="ghost" chainId={e.chainId} />
+                      </td>
+                      {s === undefined || s === "loading" ? (
+                        <td colSpan={3} className="py-2 pr-4 text-neutral-400">
+                          {s === "loading" ? "Loading…" : "—"}
+                        </td>
+                      ) : s.status === "error" ? (
+                        <td colSpan={3} className="py-2 pr-4 text-rose-300 text-xs">
+                          {s.message}
+                        </td>
+                      ) : (
+                        <>
+                          <td className="py-2 pr-4">
+                            <ModuleBadge deployed={s.deployed} enabled={s.enabled} />
+                          </td>
+                          <td className="py-2 pr-4">
+                            {s.heirs}/{s.owners} owners
+                          </td>
+                          <td className="py-2 pr-4 text-xs">
+                            {s.nearest != null ? (
+                              <span title={fmtUTC(s.nearest)}>
+                                {fmtLocal(s.nearest)}{" "}
+                                <span className="opacity-70">({relative(s.nearest)})</span>
+                              </span>
+                            ) : (
+                              "—"
+                            )}
+                          </td>
+                        </>
+                      )}
+                      <td className="py-2 text-right">
+                        <button
+                          className="px-2 py-1 rounded bg-neutral-800 hover:bg-rose-800 text-xs"
+                          onClick={(ev) => {
+                            ev.stopPropagation();
+                            remove(e);
+                          }}
+                          title="Remove from watch list"
+                        >
+                          ✕
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+          <input
+            className="px-3 py-2 rounded bg-neutral-800 sm:w-40"
+            placeholder="Label"
+            value={draft.label}
+            onChange={(e) => setDraft((d) => ({ ...d, label: e.target.value }))}
+          />
+          <select
+            className="h-10 rounded bg-neutral-800 px-3 text-sm"
+            value={draft.chainId}
+            onChange={(e) => setDraft((d) => ({ ...d, chainId: Number(e.target.value) }))}
+          >
+            {SUPPORTED_CHAIN_IDS.map((id) => (
+              <option key={id} value={id}>
+                {CHAINS[id].name}
+              </option>
+            ))}
+          </select>
+          <input
+            className="flex-1 px-3 py-2 rounded bg-neutral-800"
+            placeholder="0x… Safe address"
+            value={draft.safe}
+            onChange={(e) => setDraft((d) => ({ ...d, safe: e.target.value.trim() }))}
+          />
+          <button
+            className="px-3 py-2 rounded bg-emerald-700 hover:bg-emerald-600"
+            onClick={() => add(draft)}
+          >
+            Add
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {canAddCurrent && (
+            <button
+              className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700 text-xs"
+              onClick={() => add({ chainId: currentChainId!, safe: currentSafe, label: "" })}
+            >
+              Add current Safe
+            </button>
+          )}
+          {list.length > 0 && (
+            <button
+              className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700 text-xs"
+              onClick={() => refresh()}
+            >
+              Refresh all
+            </button>
+          )}
+          {!!error && <span className="text-xs text-rose-300">{error}</span>}
+        </div>
+      </div>
+    </details>
+  );
+}
+
+function ModuleBadge({ deployed, enabled }: { deployed: boolean; enabled: boolean }) {
+  const [label, tone] = enabled
+    ? ["Enabled", "bg-emerald-900/40 border-emerald-800 text-emerald-200"]
+    : deployed
+    ? ["Deployed, not enabled", "bg-amber-900/30 border-amber-800 text-amber-200"]
+    : ["Not deployed", "bg-neutral-800 border-neutral-700 text-neutral-300"];
+  return <span className={`text-xs px-2 py-0.5 rounded border ${tone}`}>{label}</span>;
+}
@@ -0,0 +1,64 @@
+// src/components/RpcStatus.tsx
+import { endpointHost, useRpcHealth } from "../lib/rpcPool";
+
+type Props = {
+  source: "safe" | "wallet" | "public";
+  chainId: number | null;
+};
+
+/** Where reads are served from; for the public pool, the active endpoint with per-endpoint health on click. */
+export default function RpcStatus({ source, chainId }: Props) {
+  const health = useRpcHealth(source === "public" ? chainId : null);
+
+  if (source !== "public") {
+    return (
+      <span className="text-xs opacity-60">
+        Reads via {source === "safe" ? "Safe App host" : "connected wallet"}
+      </span>
+    );
+  }
+  if (!health) return null;
+
+  const now = Date.now();
+  const active = health.endpoints.find((e) => e.url === health.active);
+  const usable = health.endpoints.filter((e) => e.chainIdOk !== false && e.cooldownUntil <= now).length;
+
+  return (
+    <details className="relative text-xs">
+      <summary className="list-none cursor-pointer select-none px-2 py-1 rounded bg-neutral-900/60 border border-neutral-700">
+        RPC {active ? endpointHost(active.url) : "—"}
+        {active?.latencyMs != null && <span className="opacity-60"> · {active.latencyMs} ms</span>}
+        {usable < health.endpoints.length && (
+          <span className="text-amber-300">
+            {" "}
+            · {usable}/{health.endpoints.length} up
+          </span>
+        )}
+      </summary>
+      <div className="absolute z-20 mt-1 min-w-[18rem] rounded-xl border border-neutral-800 bg-neutral-900 p-2 space-y-1 shadow-lg">
+        {health.endpoints.map((e) => {
+          const cooling = e.cooldownUntil > now;
+          const [dot, state] =
+            e.chainIdOk === false
+              ? ["bg-rose-500", "wrong chain"]
+              : cooling
+              ? ["bg-amber-400", `backing off ${Math.ceil((e.cooldownUntil - now) / 1000)}s`]
+              : e.chainIdOk
+              ? ["bg-emerald-500", e.url === health.active ? "serving" : "standby"]
+              : ["bg-neutral-500", "unchecked"];
+          return (
+            <div key={e.url} className="flex items-center gap-2" title={e.lastError || e.url}>
+              <span className={`w-2 h-2 rounded-full ${dot}`} />
+              <span className="font-mono">{endpointHost(e.url)}</span>
+              <span className="ml-auto opacity-70 whitespace-nowrap">
+                {state}
+                {e.latencyMs != null ? ` · ${e.latencyMs} ms` : ""}
+                {e.requests ? ` · ${e.errors}/${e.requests} err` : ""}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </details>
+  );
+}
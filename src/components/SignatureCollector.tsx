@@ -0,0 +1,332 @@
+// src/components/SignatureCollector.tsx
+import { useEffect, useMemo, useState } from "react";
+import { ethers } from "ethers";
+import Address from "./Address";
+import { CHAINS, getMultiSendCallOnly } from "../config/chains";
+import { validateSafeOnChain } from "../lib/safeValidation";
+import {
+  encodeExecTransaction,
+  getSafeNonce,
+  makeSafeInterface,
+  packSignatures,
+  signSafeTx,
+} from "../lib/safeTx";
+import {
+  addSignature,
+  bundleHash,
+  bundleToJson,
+  bundleToLink,
+  mergeBundles,
+  parseBundle,
+  type SignatureBundle,
+} from "../lib/signatureBundle";
+import { downloadText } from "../lib/download";
+import { notifier, notify } from "../lib/notifications";
+import { trackTx } from "../lib/txTracker";
+import { decodeMultiSend } from "../lib/multiSend";
+import { errorMessage } from "../lib/errors";
+import { HeirSafeModuleFactoryABI } from "../abi/HeirSafeModuleFactory";
+import { getWalletSigner } from "../wallet/ethers";
+
+type Props = {
+  bundle: SignatureBundle;
+  readProvider: ethers.Provider | null;
+  chainId: number | null;
+  onChange: (b: SignatureBundle) => void;
+  onClose: () => void;
+  onExecuted?: () => void | Promise<void>;
+};
+
+const factoryIface = new ethers.Interface(HeirSafeModuleFactoryABI);
+
+function describeInner(data: string) {
+  for (const iface of [makeSafeInterface(), factoryIface]) {
+    try {
+      const p = iface.parseTransaction({ data });
+      if (p) return `${p.name}(${p.args.map((a: unknown) => String(a)).join(", ")})`;
+    } catch {
+      /* try the next ABI */
+    }
+  }
+  return data;
+}
+
+/**
+ * Human-readable call, e.g. "enableModule(0x…)", when the target is the Safe
+ * itself — or each call of a batch DELEGATECALLed into MultiSendCallOnly.
+ */
+function describeCall(b: SignatureBundle) {
+  if (b.tx.operation === 1) {
+    if (b.tx.to.toLowerCase() !== getMultiSendCallOnly(b.chainId).toLowerCase()) return null;
+    const calls = decodeMultiSend(b.tx.data);
+    if (!calls) return null;
+    return { name: "multiSend", args: calls.map((c) => `${describeInner(c.data)} @ ${c.to}`) };
+  }
+  if (b.tx.to.toLowerCase() !== b.safe.toLowerCase()) return null;
+  try {
+    const parsed = makeSafeInterface().parseTransaction({ data: b.tx.data });
+    if (!parsed) return null;
+    return { name: parsed.name, args: parsed.args.map((a: unknown) => String(a)) };
+  } catch {
+    return null;
+  }
+}
+
+export default function SignatureCollector({
+  bundle,
+  readProvider,
+  chainId,
+  onChange,
+  onClose,
+  onExecuted,
+}: Props) {
+  const note = notifier("Signatures", { safe: bundle.safe, chainId: bundle.chainId });
+
+  const [busy, setBusy] = useState<"sign" | "exec" | null>(null);
+  const [importText, setImportText] = useState<string>("");
+  const [safeState, setSafeState] = useState<null | {
+    owners: string[];
+    threshold: number;
+    nonce: number;
+  }>(null);
+
+  const hash = useMemo(() => bundleHash(bundle), [bundle]);
+  const call = useMemo(() => describeCall(bundle), [bundle]);
+  const onRightChain = chainId === bundle.chainId;
+  const chainName = CHAINS[bundle.chainId]?.name ?? `Chain ${bundle.chainId}`;
+
+  // Owners/threshold/nonce on the bundle's chain
+  useEffect(() => {
+    if (!readProvider || !onRightChain) {
+      setSafeState(null);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      const v = await validateSafeOnChain(readProvider, bundle.safe);
+      if (!v.ok) {
+        if (!cancelled) {
+          notify("Bundle Safe is not a Safe on this network", "warn", {
+            source: "Signatures",
+            safe: bundle.safe,
+            chainId: bundle.chainId,
+          });
+        }
+        return;
+      }
+      const nonce = await getSafeNonce(readProvider, bundle.safe);
+      if (!cancelled) setSafeState({ owners: v.owners, threshold: v.threshold, nonce });
+    })().catch((e) => console.debug("[SignatureCollector] safe lookup failed:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [readProvider, onRightChain, bundle.safe, bundle.chainId]);
+
+  const isOwner = (a: string) =>
+    !!safeState?.owners.some((o) => o.toLowerCase() === a.toLowerCase());
+  const ownerSigs = safeState
+    ? bundle.signatures.filter((s) => isOwner(s.signer))
+    : bundle.signatures;
+  const threshold = safeState?.threshold ?? null;
+  const stale = safeState != null && safeState.nonce > bundle.tx.nonce;
+  const ready = threshold != null && ownerSigs.length >= threshold && !stale;
+
+  async function getSigner() {
+    const signer = await getWalletSigner();
+    const net = await signer.provider.getNetwork();
+    if (Number(net.chainId) !== bundle.chainId) {
+      throw new Error(`Switch your wallet to ${chainName} first`);
+    }
+    return signer;
+  }
+
+  async function sign() {
+    try {
+      setBusy("sign");
+      const signer = await getSigner();
+      const me = await signer.getAddress();
+      if (safeState && !isOwner(me)) throw new Error("Connected wallet is not a Safe owner");
+
+      const sig = await signSafeTx(signer, bundle.chainId, bundle.safe, bundle.tx, bundle.safeVersion);
+      onChange(addSignature(bundle, me, sig));
+      note("Signature added — share the updated link with the next owner.", "success", { key: hash });
+    } catch (e) {
+      note(errorMessage(e), "error");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function execute() {
+    try {
+      setBusy("exec");
+      const signer = await getSigner();
+      const from = await signer.getAddress();
+      const execData = encodeExecTransaction(bundle.tx, packSignatures(ownerSigs));
+
+      // Preflight so a bad signature set fails before the wallet prompt
+      await (signer.provider as ethers.Provider).call({ to: bundle.safe, data: execData, from });
+
+      const tx = await signer.sendTransaction({ to: bundle.safe, data: execData, value: 0 });
+      const t = await trackTx(tx, { label: "Multisig execution", safe: bundle.safe });
+      if (t.status === "mined") await onExecuted?.();
+    } catch (e) {
+      note(errorMessage(e), "error");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function importSignatures() {
+    try {
+      const merged = mergeBundles(bundle, parseBundle(importText));
+      const added = merged.signatures.length - bundle.signatures.length;
+      onChange(merged);
+      setImportText("");
+      note(added > 0 ? `Imported ${added} signature${added !== 1 ? "s" : ""}` : "No new signatures", added > 0 ? "success" : "info");
+    } catch (e) {
+      note(errorMessage(e), "error");
+    }
+  }
+
+  async function copy(text: string, label: string) {
+    try {
+      await navigator.clipboard.writeText(text);
+      note(`${label} copied`, "success");
+    } catch {
+      note(`Can't copy ${label}`, "error");
+    }
+  }
+
+  function download() {
+    downloadText(
+      `safe-tx-${bundle.tx.nonce}-${hash.slice(2, 10)}.json`,
+      bundleToJson(bundle),
+      "application/json"
+    );
+  }
+
+  return (
+    <section
+      className="rounded-2xl bg-neutral-900/70 border border-neutral-800 p-4 space-y-3"
+      aria-labelledby="collect-title"
+    >
+      <div className="flex items-start justify-between gap-3">
+        <h2 id="collect-title" className="font-semibold">
+          Offline signatures{bundle.description ? ` · ${bundle.description}` : ""}
+        </h2>
+        <button
+          className="px-2 py-1 rounded bg-neutral-800 hover:bg-neutral-700 text-xs"
+          onClick={onClose}
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="grid gap-1 text-xs sm:grid-cols-[8rem_1fr]">
+        <span className="opacity-70">Network</span>
+        <span>{chainName}</span>
+        <span className="opacity-70">Safe</span>
+        <span>
+          <Address addr={bundle.safe} chainId={bundle.chainId} />
+        </span>
+        <span className="opacity-70">Call</span>
+        <span className="break-all">
+          {call ? (
+            <>
+              {call.name}({call.args.join(", ")})
+            </>
+          ) : (
+            <>
+              to <Address addr={bundle.tx.to} variant="ghost" chainId={bundle.chainId} /> · {bundle.tx.data}
+            </>
+          )}
+          {bundle.tx.operation === 1 && <span className="text-amber-300"> · DELEGATECALL</span>}
+        </span>
+        <span className="opacity-70">Nonce</span>
+        <span>{bundle.tx.nonce}</span>
+        <span className="opacity-70">SafeTx hash</span>
+        <span className="font-mono break-all">{hash}</span>
+      </div>
+
+      {!onRightChain && (
+        <div className="text-sm text-amber-300">
+          This transaction is for {chainName}. Switch networks to sign or execute it.
+        </div>
+      )}
+      {stale && (
+        <div className="text-sm text-amber-300">
+          The Safe nonce has moved past {bundle.tx.nonce} — this transaction was executed or
+          replaced.
+        </div>
+      )}
+
+      <div className="space-y-1 text-xs">
+        <div>
+          Signatures: {ownerSigs.length}
+          {threshold != null ? ` / ${threshold}` : ""}
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {bundle.signatures.map((s) => (
+            <span key={s.signer} className={safeState && !isOwner(s.signer) ? "opacity-50" : ""}>
+              <Address addr={s.signer} variant="ghost" chainId={bundle.chainId} />
+              {safeState && !isOwner(s.signer) && <span className="text-rose-300"> not an owner</span>}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          className="px-3 py-2 rounded bg-emerald-700 hover:bg-emerald-600 disabled:opacity-50"
+          onClick={sign}
+          disabled={busy !== null || !onRightChain || stale}
+        >
+          {busy === "sign" ? "Signing…" : "Sign"}
+        </button>
+        <button
+          className="px-3 py-2 rounded bg-amber-700 hover:bg-amber-600 disabled:opacity-50"
+          onClick={execute}
+          disabled={busy !== null || !ready}
+          title={ready ? undefined : "Needs signatures from enough owners"}
+        >
+          {busy === "exec" ? "Executing…" : "Execute"}
+        </button>
+        <button
+          className="px-3 py-2 rounded bg-neutral-800 hover:bg-neutral-700"
+          onClick={() => copy(bundleToLink(bundle), "Link")}
+        >
+          Copy link
+        </button>
+        <button
+          className="px-3 py-2 rounded bg-neutral-800 hover:bg-neutral-700"
+          onClick={() => copy(bundleToJson(bundle), "JSON")}
+        >
+          Copy JSON
+        </button>
+        <button
+          className="px-3 py-2 rounded bg-neutral-800 hover:bg-neutral-700"
+          onClick={download}
+        >
+          Download
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-start">
+        <textarea
+          className="flex-1 px-3 py-2 rounded bg-neutral-800 text-xs font-mono min-h-[3rem]"
+          placeholder="Paste another owner's link or JSON to merge their signature"
+          value={importText}
+          onChange={(e) => setImportText(e.target.value)}
+        />
+        <button
+          className="px-3 py-2 rounded bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50"
+          onClick={importSignatures}
+          disabled={!importText.trim()}
+        >
+          Merge
+        </button>
+      </div>
+    </section>
+  );
+}
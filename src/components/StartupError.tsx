@@ -0,0 +1,18 @@
+// src/components/StartupError.tsx
+/** Shown instead of a blank page when config or app chunks fail to load. */
+export default function StartupError({ message }: { message: string }) {
+  return (
+    <div className="min-h-full flex items-center justify-center p-6">
+      <div className="max-w-lg rounded-2xl border border-rose-800 bg-rose-950/30 p-5 space-y-3">
+        <h1 className="font-semibold text-rose-200">HeirSafe couldn't start</h1>
+        <pre className="text-xs whitespace-pre-wrap break-all text-rose-100/90">{message}</pre>
+        <button
+          className="px-3 py-2 rounded bg-neutral-800 hover:bg-neutral-700 text-sm"
+          onClick={() => window.location.reload()}
+        >
+          Reload
+        </button>
+      </div>
+    </div>
+  );
+}
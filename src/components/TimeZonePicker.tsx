@@ -0,0 +1,67 @@
+// src/components/TimeZonePicker.tsx
+import { useMemo } from "react";
+import { browserTimeZone, listTimeZones } from "../lib/time";
+
+type Props = {
+  zone: string; // "" = browser local
+  extra: string[];
+  onZone: (z: string) => void;
+  onExtra: (zs: string[]) => void;
+};
+
+/** Primary zone (drives display + entry) and extra zones listed under each activation. */
+export default function TimeZonePicker({ zone, extra, onZone, onExtra }: Props) {
+  const zones = useMemo(() => listTimeZones(), []);
+  const local = browserTimeZone();
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <label className="opacity-70" htmlFor="tz-primary">
+        Time zone
+      </label>
+      <select
+        id="tz-primary"
+        className="h-7 max-w-[12rem] rounded bg-neutral-800 px-2"
+        value={zone}
+        onChange={(e) => onZone(e.target.value)}
+        title="Used for activation display and entry"
+      >
+        <option value="">Browser local ({local})</option>
+        {zones.map((z) => (
+          <option key={z} value={z}>
+            {z}
+          </option>
+        ))}
+      </select>
+
+      {extra.map((z) => (
+        <span key={z} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-neutral-800">
+          {z}
+          <button
+            type="button"
+            className="opacity-60 hover:opacity-100"
+            onClick={() => onExtra(extra.filter((x) => x !== z))}
+            aria-label={`Remove ${z}`}
+          >
+            ✕
+          </button>
+        </span>
+      ))}
+      <select
+        className="h-7 max-w-[8rem] rounded bg-neutral-800 px-2"
+        value=""
+        onChange={(e) => e.target.value && onExtra([...extra, e.target.value])}
+        title="Also show activation times in…"
+      >
+        <option value="">+ zone</option>
+        {zones
+          .filter((z) => z !== zone && !extra.includes(z))
+          .map((z) => (
+            <option key={z} value={z}>
+              {z}
+            </option>
+          ))}
+      </select>
+    </div>
+  );
+}
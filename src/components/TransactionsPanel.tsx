@@ -0,0 +1,102 @@
+// src/components/TransactionsPanel.tsx
+import Address from "./Address";
+import { CHAINS } from "../config/chains";
+import { explorerTxUrl } from "../lib/links";
+import { clearSettledTxs, useTrackedTxs, type TrackedTx, type TxStatus } from "../lib/txTracker";
+
+const chainName = (id: number) => CHAINS[id]?.name ?? `Chain ${id}`;
+const shortHash = (h: string) => `${h.slice(0, 10)}…${h.slice(-6)}`;
+
+const TONE: Record<TxStatus, string> = {
+  pending: "bg-sky-900/40 border-sky-800 text-sky-200",
+  mined: "bg-emerald-900/40 border-emerald-800 text-emerald-200",
+  failed: "bg-rose-900/40 border-rose-800 text-rose-200",
+  replaced: "bg-amber-900/30 border-amber-800 text-amber-200",
+  cancelled: "bg-amber-900/30 border-amber-800 text-amber-200",
+  dropped: "bg-neutral-800 border-neutral-700 text-neutral-300",
+};
+
+/** Sent transactions (kept across reloads) with status, confirmations and explorer links. */
+export default function TransactionsPanel() {
+  const txs = useTrackedTxs();
+  if (!txs.length) return null;
+  const pending = txs.filter((t) => t.status === "pending").length;
+
+  return (
+    <details open={pending > 0} className="rounded-2xl bg-neutral-900/70 border border-neutral-800">
+      <summary className="list-none cursor-pointer select-none px-4 py-3 flex items-center justify-between">
+        <span className="font-medium">
+          Transactions{pending ? ` · ${pending} pending` : ""}
+        </span>
+        <span>▼</span>
+      </summary>
+
+      <div className="px-4 pb-4 space-y-2 text-sm">
+        <ul className="divide-y divide-neutral-800">
+          {txs.map((t) => (
+            <TxRow key={t.origHash} t={t} />
+          ))}
+        </ul>
+        {txs.length > pending && (
+          <button
+            className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700 text-xs"
+            onClick={clearSettledTxs}
+          >
+            Clear finished
+          </button>
+        )}
+      </div>
+    </details>
+  );
+}
+
+function TxRow({ t }: { t: TrackedTx }) {
+  const url = explorerTxUrl(t.chainId, t.hash);
+  const origUrl = t.hash !== t.origHash ? explorerTxUrl(t.chainId, t.origHash) : null;
+  return (
+    <li className="py-2 flex flex-wrap items-center gap-2">
+      <span className={`text-xs px-2 py-0.5 rounded border ${TONE[t.status]}`}>
+        {t.status === "pending" ? "Pending…" : t.status[0].toUpperCase() + t.status.slice(1)}
+      </span>
+      <span>{t.label}</span>
+      {t.safe && <Address addr={t.safe} variant="ghost" chainId={t.chainId} />}
+      <span className="text-xs opacity-60">{chainName(t.chainId)}</span>
+      <span className="ml-auto flex items-center gap-3 text-xs">
+        {t.status === "mined" && (
+          <span className="opacity-80">
+            {t.confirmations} confirmation{t.confirmations !== 1 ? "s" : ""}
+          </span>
+        )}
+        {origUrl && (
+          <a className="underline opacity-70" href={origUrl} target="_blank" rel="noreferrer" title="Original transaction">
+            sped up from {shortHash(t.origHash)}
+          </a>
+        )}
+        {url ? (
+          <a className="underline font-mono" href={url} target="_blank" rel="noreferrer">
+            {shortHash(t.hash)}
+          </a>
+        ) : (
+          <span className="font-mono">{shortHash(t.hash)}</span>
+        )}
+        {t.replacedBy && t.replacedBy !== t.hash && (
+          <span className="opacity-70">
+            by{" "}
+            {explorerTxUrl(t.chainId, t.replacedBy) ? (
+              <a
+                className="underline font-mono"
+                href={explorerTxUrl(t.chainId, t.replacedBy)!}
+                target="_blank"
+                rel="noreferrer"
+              >
+                {shortHash(t.replacedBy)}
+              </a>
+            ) : (
+              <span className="font-mono">{shortHash(t.replacedBy)}</span>
+            )}
+          </span>
+        )}
+      </span>
+    </li>
+  );
+}
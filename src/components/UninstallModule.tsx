@@ -0,0 +1,62 @@
+// src/components/UninstallModule.tsx
+import { useState } from "react";
+import { ethers } from "ethers";
+import { computePrevModule } from "../lib/moduleInstall";
+import { batchFilename, createBatch, disableModuleTx } from "../lib/txBuilder";
+import { downloadText } from "../lib/download";
+import { notify } from "../lib/notifications";
+import { errorMessage } from "../lib/errors";
+
+type Props = {
+  safeAddr: string;
+  moduleAddr: string;
+  readProvider: ethers.Provider;
+  chainId: number;
+};
+
+/** Transaction Builder batch that disables the module (executed by the owners in Safe{Wallet}). */
+export default function UninstallModule({ safeAddr, moduleAddr, readProvider, chainId }: Props) {
+  const [busy, setBusy] = useState(false);
+
+  async function exportBatch() {
+    try {
+      setBusy(true);
+      const prev = await computePrevModule(readProvider, safeAddr, moduleAddr);
+      const b = createBatch(
+        chainId,
+        safeAddr,
+        [disableModuleTx(safeAddr, prev, moduleAddr)],
+        "HeirSafe: disable module",
+        `Disable ${moduleAddr}; heirs can no longer claim. Configs stay in the module contract.`
+      );
+      downloadText(batchFilename(b, "uninstall"), JSON.stringify(b, null, 2), "application/json");
+      notify("Batch saved — drop it into Safe{Wallet} › Apps › Transaction Builder", "success", {
+        source: "Install",
+        safe: safeAddr,
+        chainId,
+      });
+    } catch (e) {
+      notify(errorMessage(e), "error", { source: "Install", safe: safeAddr, chainId });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <details className="text-xs">
+      <summary className="cursor-pointer select-none opacity-70 hover:opacity-100">Uninstall…</summary>
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        <span className="opacity-70">
+          Disabling the module stops every designated heir from claiming.
+        </span>
+        <button
+          className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-rose-800 disabled:opacity-50"
+          onClick={exportBatch}
+          disabled={busy}
+        >
+          {busy ? "Preparing…" : "disableModule batch (Transaction Builder)"}
+        </button>
+      </div>
+    </details>
+  );
+}
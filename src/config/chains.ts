@@ -1,4 +1,6 @@
 // src/config/chains.ts
+import { getRuntimeConfig, reportConfigIssue } from "./runtime";
+
 export type AddEthereumChainParameter = {
   chainId: `0x${string}`;
   chainName: string;
@@ -7,30 +9,43 @@ export type AddEthereumChainParameter = {
   blockExplorerUrls?: string[];
 };
 
+/**
+ * One entry per network the app supports. Everything chain-specific is
+ * derived from here: wagmi chains/transports, the network switcher, wallet
+ * add-chain params, public RPC fallbacks, explorer links and whether the
+ * module can be installed (a factory is configured).
+ */
 export type ChainConfig = {
   id: number;
-  name: string;
-  factory: string; // your HeirSafe factory per chain
+  name: string; // UI label
+  walletName?: string; // chain name sent to wallets (defaults to `name`)
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  rpcUrls: string[]; // public RPCs, preferred first
+  explorer?: string; // block explorer base URL
+  testnet?: boolean;
+  factory?: string; // your HeirSafe factory per chain (omit where not deployed)
   txService?: string; // Safe Tx Service base URL (optional)
-  addChainParams?: AddEthereumChainParameter; // for wallet_addEthereumChain
+  multiSendCallOnly?: string; // overrides the canonical v1.3.0 deployment
 };
 
-export const CHAINS: Record<number, ChainConfig> = {
+// VITE_PUBLIC_RPC (Sepolia) takes precedence over the public defaults
+function withEnvRpc(urls: string[]) {
+  const env = (import.meta.env.VITE_PUBLIC_RPC || "").trim();
+  return env ? [env, ...urls.filter((u) => u !== env)] : urls;
+}
+
+const BUILTIN_CHAINS: Record<number, ChainConfig> = {
   // ────────────────────────────────
   // Ethereum mainnet
   // ────────────────────────────────
   1: {
     id: 1,
     name: "Ethereum",
-    factory: "0xe1fad32178053fF29E68b21D965D482d94Bb0394", 
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: ["https://eth.llamarpc.com", "https://rpc.ankr.com/eth"],
+    explorer: "https://etherscan.io",
+    factory: "0xe1fad32178053fF29E68b21D965D482d94Bb0394",
     txService: "https://safe-transaction-mainnet.safe.global",
-    addChainParams: {
-      chainId: "0x1",
-      chainName: "Ethereum",
-      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
-      rpcUrls: ["https://eth.llamarpc.com", "https://rpc.ankr.com/eth"],
-      blockExplorerUrls: ["https://etherscan.io"],
-    },
   },
 
   // ────────────────────────────────
@@ -39,39 +54,71 @@ export const CHAINS: Record<number, ChainConfig> = {
   369: {
     id: 369,
     name: "PulseChain",
-    factory: "0xe1fad32178053fF29E68b21D965D482d94Bb0394", 
-    addChainParams: {
-      chainId: "0x171",
-      chainName: "PulseChain",
-      nativeCurrency: { name: "Pulse", symbol: "PLS", decimals: 18 },
-      rpcUrls: [
-        "https://rpc.pulsechain.com",
-        "https://pulsechain.publicnode.com",
-      ],
-      blockExplorerUrls: ["https://scan.pulsechain.com"],
-    },
+    nativeCurrency: { name: "Pulse", symbol: "PLS", decimals: 18 },
+    rpcUrls: ["https://rpc.pulsechain.com", "https://pulsechain.publicnode.com"],
+    explorer: "https://scan.pulsechain.com",
+    factory: "0xe1fad32178053fF29E68b21D965D482d94Bb0394",
   },
+
   // ────────────────────────────────
   // Sepolia (test)
   // ────────────────────────────────
   11155111: {
     id: 11155111,
     name: "Sepolia (test)",
+    walletName: "Sepolia",
+    nativeCurrency: { name: "Sepolia ETH", symbol: "ETH", decimals: 18 },
+    rpcUrls: withEnvRpc(["https://rpc.sepolia.org", "https://sepolia.drpc.org"]),
+    explorer: "https://sepolia.etherscan.io",
+    testnet: true,
     factory: "0xE83e2d2abE267741c261f7749A97BA4CE2A63603",
     txService: "https://safe-transaction-sepolia.safe.global",
-    addChainParams: {
-      chainId: "0xaa36a7",
-      chainName: "Sepolia",
-      nativeCurrency: { name: "Sepolia ETH", symbol: "ETH", decimals: 18 },
-      rpcUrls: ["https://rpc.sepolia.org", "https://sepolia.drpc.org"],
-      blockExplorerUrls: ["https://sepolia.etherscan.io"],
-    },
   },
 
   // Add more networks as you deploy:
   // 8453: { ... }, 42161: { ... }, etc.
 };
 
+/** Built-in networks with the runtime config's `chains` merged over them (new IDs must be complete). */
+function mergeChains(): Record<number, ChainConfig> {
+  const out: Record<number, ChainConfig> = { ...BUILTIN_CHAINS };
+  for (const [key, o] of Object.entries(getRuntimeConfig().chains)) {
+    const id = Number(key);
+    const merged = { ...out[id], ...o, id } as ChainConfig;
+    if (!merged.name || !merged.nativeCurrency || !merged.rpcUrls?.length) {
+      reportConfigIssue(`chains.${id}`, "New chains need name, nativeCurrency and rpcUrls");
+      continue;
+    }
+    out[id] = merged;
+  }
+  return out;
+}
+
+export const CHAINS: Record<number, ChainConfig> = mergeChains();
+
+/** Chain used for public reads before a wallet or Safe App supplies one. */
+export const DEFAULT_CHAIN_ID = CHAINS[getRuntimeConfig().defaultChainId] ? getRuntimeConfig().defaultChainId : 11155111;
+if (DEFAULT_CHAIN_ID !== getRuntimeConfig().defaultChainId)
+  reportConfigIssue("defaultChainId", `Chain ${getRuntimeConfig().defaultChainId} is not configured`);
+
+export function getRpcUrls(chainId: number): string[] {
+  return CHAINS[chainId]?.rpcUrls ?? [];
+}
+
+/** wallet_addEthereumChain params for a configured chain. */
+export function getAddChainParams(chainId: number): AddEthereumChainParameter | null {
+  const c = CHAINS[chainId];
+  if (!c) return null;
+  const explorer = getExplorerUrl(chainId);
+  return {
+    chainId: `0x${c.id.toString(16)}`,
+    chainName: c.walletName ?? c.name,
+    nativeCurrency: c.nativeCurrency,
+    rpcUrls: c.rpcUrls,
+    ...(explorer ? { blockExplorerUrls: [explorer] } : {}),
+  };
+}
+
 export function getFactoryAddress(chainId: number): string | null {
   const a = CHAINS[chainId]?.factory;
   return a ? a.trim() : null;
@@ -80,4 +127,17 @@ export function getFactoryAddress(chainId: number): string | null {
 export function getTxServiceUrl(chainId: number): string | null {
   return CHAINS[chainId]?.txService ?? null;
 }
+
+/** Canonical MultiSendCallOnly v1.3.0 (same address on every chain it is deployed to). */
+export const MULTISEND_CALL_ONLY = "0x40A2aCCbd92BCA938b02010E17A5b8929b49130D";
+
+export function getMultiSendCallOnly(chainId: number): string {
+  return CHAINS[chainId]?.multiSendCallOnly ?? MULTISEND_CALL_ONLY;
+}
+
+export function getExplorerUrl(chainId: number): string | null {
+  const u = CHAINS[chainId]?.explorer;
+  return u ? u.replace(/\/+$/, "") : null;
+}
+
 export const SUPPORTED_CHAIN_IDS = Object.keys(CHAINS).map((x) => Number(x));
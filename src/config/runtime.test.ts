@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { parseRuntimeConfig, type RuntimeConfig } from "./runtime";
+
+const SALT = "0x" + "ab".repeat(32);
+const SAFE = "0x1c511D88ba898b4D9cd9113D13B9c360a02Fcea1";
+
+const base = (): RuntimeConfig => ({
+  defaultSafe: "",
+  installSalt: "0x" + "00".repeat(32),
+  fallbackRpc: "",
+  defaultChainId: 11155111,
+  walletConnectProjectId: "0".repeat(32),
+  activation: { minDays: 30, maxDays: 3650, mode: "warn" },
+  chains: {},
+  features: { portfolio: true, inheritedSafes: true, offlineSigning: true, heirProof: true, alerts: true },
+});
+
+const paths = (raw: unknown) => parseRuntimeConfig(raw, base()).issues.map((i) => i.path);
+
+describe("parseRuntimeConfig", () => {
+  it("applies a valid config over the base", () => {
+    const { config, issues } = parseRuntimeConfig(
+      {
+        $schema: "./config.schema.json",
+        _comment: "staging",
+        defaultSafe: SAFE,
+        installSalt: SALT,
+        fallbackRpc: "https://rpc.example/",
+        defaultChainId: 369,
+        walletConnectProjectId: "b17c1d7d5e1c4d5c8e0d3b9b8a3e7f52",
+        activation: { minDays: 0, mode: "block" },
+        features: { portfolio: false },
+        chains: {
+          369: { name: "PulseChain", rpcUrls: ["https://rpc.pulsechain.com"], testnet: false },
+        },
+      },
+      base()
+    );
+    expect(issues).toEqual([]);
+    expect(config).toMatchObject({
+      defaultSafe: SAFE,
+      installSalt: SALT,
+      fallbackRpc: "https://rpc.example/",
+      defaultChainId: 369,
+      activation: { minDays: 0, maxDays: 3650, mode: "block" },
+      features: { portfolio: false, alerts: true },
+      chains: { 369: { name: "PulseChain", rpcUrls: ["https://rpc.pulsechain.com"], testnet: false } },
+    });
+  });
+
+  it("rejects anything but a JSON object", () => {
+    for (const raw of [null, [], "x", 1]) {
+      const { config, issues } = parseRuntimeConfig(raw, base());
+      expect(issues).toEqual([{ path: "", message: "Config must be a JSON object" }]);
+      expect(config).toEqual(base());
+    }
+  });
+
+  it("reports invalid fields and keeps their base values", () => {
+    const { config, issues } = parseRuntimeConfig(
+      {
+        defaultSafe: "0x1234",
+        installSalt: "0x00",
+        fallbackRpc: "ftp://rpc.example",
+        defaultChainId: 1.5,
+        walletConnectProjectId: "nope",
+      },
+      base()
+    );
+    expect(issues.map((i) => i.path)).toEqual([
+      "defaultSafe",
+      "installSalt",
+      "fallbackRpc",
+      "walletConnectProjectId",
+      "defaultChainId",
+    ]);
+    expect(config).toEqual(base());
+  });
+
+  it("reports unknown keys and features", () => {
+    expect(paths({ defualtSafe: SAFE, features: { portfolio: "yes", teleport: true } })).toEqual([
+      "defualtSafe",
+      "features.portfolio",
+      "features.teleport",
+    ]);
+  });
+
+  it("checks the activation policy", () => {
+    expect(paths({ activation: { minDays: -1, maxDays: "10", mode: "strict" } })).toEqual([
+      "activation.minDays",
+      "activation.maxDays",
+      "activation.mode",
+    ]);
+    expect(parseRuntimeConfig({ activation: { minDays: 100, maxDays: 10 } }, base()).issues).toEqual([
+      { path: "activation", message: "minDays is greater than maxDays" },
+    ]);
+    expect(paths({ activation: [] })).toEqual(["activation"]);
+  });
+
+  it("validates chain overrides field by field", () => {
+    const { config, issues } = parseRuntimeConfig(
+      {
+        chains: {
+          abc: {},
+          1: { name: "", rpcUrls: [], explorer: "javascript:alert(1)", factory: "0xnope", nativeCurrency: { name: "E" } },
+          10: { rpcUrls: ["https://mainnet.optimism.io"], factory: "", txService: "" },
+        },
+      },
+      base()
+    );
+    expect(issues.map((i) => i.path)).toEqual([
+      "chains.1.name",
+      "chains.1.rpcUrls",
+      "chains.1.explorer",
+      "chains.1.factory",
+      "chains.1.nativeCurrency",
+      "chains.abc",
+    ]);
+    expect(config.chains[1]).toEqual({});
+    // "" clears a built-in value
+    expect(config.chains[10]).toEqual({ rpcUrls: ["https://mainnet.optimism.io"], factory: undefined, txService: undefined });
+  });
+
+  it("does not modify the base config", () => {
+    const b = base();
+    parseRuntimeConfig({ activation: { mode: "block" }, features: { alerts: false }, chains: { 1: { name: "X" } } }, b);
+    expect(b).toEqual(base());
+  });
+});
@@ -0,0 +1,263 @@
+// src/config/runtime.ts
+import type { ChainConfig } from "./chains";
+import { errorMessage } from "../lib/errors";
+
+/*
+ * Deployment config read from `config.json` next to index.html at startup, so
+ * one build can serve staging and prod. Every field is optional: anything
+ * missing or invalid falls back to the build-time env value (VITE_*) or the
+ * built-in default, and problems are listed in the UI instead of failing.
+ *
+ * Must be loaded before modules that read it at import time (chains, wagmi,
+ * App); main.tsx imports those only after `loadRuntimeConfig()` resolves.
+ */
+
+export type ChainOverride = Partial<Omit<ChainConfig, "id">>;
+
+export type FeatureToggles = {
+  portfolio: boolean;
+  inheritedSafes: boolean;
+  offlineSigning: boolean;
+  heirProof: boolean;
+  alerts: boolean;
+};
+
+export type RuntimeConfig = {
+  defaultSafe: string;
+  installSalt: string;
+  fallbackRpc: string; // "" = first public RPC of defaultChainId
+  defaultChainId: number;
+  walletConnectProjectId: string;
+  activation: { minDays: number; maxDays: number; mode: "warn" | "block" };
+  chains: Record<number, ChainOverride>; // merged over the built-in registry
+  features: FeatureToggles;
+};
+
+export type ConfigIssue = { path: string; message: string };
+
+const SALT_RE = /^0x[0-9a-fA-F]{64}$/;
+const ADDR_RE = /^0x[0-9a-fA-F]{40}$/;
+
+function envDays(v: unknown, dflt: number) {
+  const n = Number(v);
+  return v != null && v !== "" && Number.isFinite(n) && n >= 0 ? n : dflt;
+}
+
+/** Build-time values: what the app used before config.json existed. */
+function fromEnv(): RuntimeConfig {
+  const env = import.meta.env;
+  return {
+    defaultSafe: (env.VITE_DEFAULT_SAFE || "").trim(),
+    installSalt: (env.VITE_INSTALL_SALT || "").trim() || "0x" + "00".repeat(32),
+    fallbackRpc: (env.VITE_FALLBACK_RPC || "").trim(),
+    defaultChainId: 11155111, // Sepolia
+    walletConnectProjectId: (env.VITE_WC_PROJECT_ID || "").trim() || "b17c1d7d5e1c4d5c8e0d3b9b8a3e7f52",
+    activation: {
+      minDays: envDays(env.VITE_ACTIVATION_MIN_DAYS, 30),
+      maxDays: envDays(env.VITE_ACTIVATION_MAX_DAYS, 3650),
+      mode: env.VITE_ACTIVATION_POLICY === "block" ? "block" : "warn",
+    },
+    chains: {},
+    features: { portfolio: true, inheritedSafes: true, offlineSigning: true, heirProof: true, alerts: true },
+  };
+}
+
+let current: RuntimeConfig = fromEnv();
+let issues: ConfigIssue[] = [];
+let source: "env" | "file" = "env";
+
+export const getRuntimeConfig = () => current;
+export const getConfigIssues = () => issues;
+/** For checks that need other modules (e.g. the chain registry merge). */
+export const reportConfigIssue = (path: string, message: string) => {
+  issues = [...issues, { path, message }];
+};
+/** "file" once a config.json was found and applied (even partially). */
+export const getConfigSource = () => source;
+
+// --- validation ---
+
+const isObj = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const isUrl = (v: unknown) => {
+  if (typeof v !== "string") return false;
+  try {
+    return /^https?:$/.test(new URL(v).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check `raw` against the schema and merge the valid parts over `base`.
+ * Invalid fields are reported and skipped; unknown keys are reported too
+ * (usually a typo).
+ */
+export function parseRuntimeConfig(raw: unknown, base: RuntimeConfig): { config: RuntimeConfig; issues: ConfigIssue[] } {
+  const out: RuntimeConfig = {
+    ...base,
+    activation: { ...base.activation },
+    chains: { ...base.chains },
+    features: { ...base.features },
+  };
+  const errs: ConfigIssue[] = [];
+  const bad = (path: string, message: string) => errs.push({ path, message });
+
+  if (!isObj(raw)) {
+    bad("", "Config must be a JSON object");
+    return { config: out, issues: errs };
+  }
+
+  const known = new Set([
+    "defaultSafe",
+    "installSalt",
+    "fallbackRpc",
+    "defaultChainId",
+    "walletConnectProjectId",
+    "activation",
+    "chains",
+    "features",
+  ]);
+  for (const k of Object.keys(raw)) if (!known.has(k) && k !== "$schema" && k !== "_comment") bad(k, "Unknown key");
+
+  if (raw.defaultSafe !== undefined) {
+    if (raw.defaultSafe === "" || (typeof raw.defaultSafe === "string" && ADDR_RE.test(raw.defaultSafe)))
+      out.defaultSafe = raw.defaultSafe as string;
+    else bad("defaultSafe", "Expected a 0x address or \"\"");
+  }
+  if (raw.installSalt !== undefined) {
+    if (typeof raw.installSalt === "string" && SALT_RE.test(raw.installSalt)) out.installSalt = raw.installSalt;
+    else bad("installSalt", "Expected 0x + 64 hex chars");
+  }
+  if (raw.fallbackRpc !== undefined) {
+    if (raw.fallbackRpc === "" || isUrl(raw.fallbackRpc)) out.fallbackRpc = raw.fallbackRpc as string;
+    else bad("fallbackRpc", "Expected an http(s) URL or \"\"");
+  }
+  if (raw.walletConnectProjectId !== undefined) {
+    if (typeof raw.walletConnectProjectId === "string" && /^[0-9a-f]{32}$/i.test(raw.walletConnectProjectId))
+      out.walletConnectProjectId = raw.walletConnectProjectId;
+    else bad("walletConnectProjectId", "Expected a 32-character WalletConnect project ID");
+  }
+
+  if (raw.activation !== undefined) {
+    if (!isObj(raw.activation)) bad("activation", "Expected an object");
+    else {
+      const a = raw.activation;
+      for (const k of ["minDays", "maxDays"] as const) {
+        if (a[k] === undefined) continue;
+        if (typeof a[k] === "number" && Number.isFinite(a[k]) && (a[k] as number) >= 0) out.activation[k] = a[k] as number;
+        else bad(`activation.${k}`, "Expected a number ≥ 0 (0 = no limit)");
+      }
+      if (a.mode !== undefined) {
+        if (a.mode === "warn" || a.mode === "block") out.activation.mode = a.mode;
+        else bad("activation.mode", "Expected \"warn\" or \"block\"");
+      }
+      if (out.activation.minDays && out.activation.maxDays && out.activation.minDays > out.activation.maxDays)
+        bad("activation", "minDays is greater than maxDays");
+    }
+  }
+
+  if (raw.features !== undefined) {
+    if (!isObj(raw.features)) bad("features", "Expected an object");
+    else {
+      for (const [k, v] of Object.entries(raw.features)) {
+        if (!(k in out.features)) bad(`features.${k}`, "Unknown feature");
+        else if (typeof v !== "boolean") bad(`features.${k}`, "Expected true or false");
+        else out.features[k as keyof FeatureToggles] = v;
+      }
+    }
+  }
+
+  if (raw.chains !== undefined) {
+    if (!isObj(raw.chains)) bad("chains", "Expected an object keyed by chain ID");
+    else {
+      for (const [id, c] of Object.entries(raw.chains)) {
+        const p = `chains.${id}`;
+        if (!/^[1-9][0-9]*$/.test(id)) {
+          bad(p, "Key must be a decimal chain ID");
+          continue;
+        }
+        const chain = parseChain(c, p, bad);
+        if (chain) out.chains[Number(id)] = chain;
+      }
+    }
+  }
+
+  // After chains: the default chain may be one the file adds
+  if (raw.defaultChainId !== undefined) {
+    if (typeof raw.defaultChainId === "number" && Number.isInteger(raw.defaultChainId) && raw.defaultChainId > 0)
+      out.defaultChainId = raw.defaultChainId;
+    else bad("defaultChainId", "Expected a positive integer chain ID");
+  }
+
+  return { config: out, issues: errs };
+}
+
+function parseChain(c: unknown, p: string, bad: (path: string, message: string) => void): ChainOverride | null {
+  if (!isObj(c)) {
+    bad(p, "Expected an object");
+    return null;
+  }
+  const o: ChainOverride = {};
+  const str = (k: "name" | "walletName") => {
+    if (c[k] === undefined) return;
+    if (typeof c[k] === "string" && c[k]) o[k] = c[k] as string;
+    else bad(`${p}.${k}`, "Expected a non-empty string");
+  };
+  str("name");
+  str("walletName");
+
+  if (c.rpcUrls !== undefined) {
+    if (Array.isArray(c.rpcUrls) && c.rpcUrls.length > 0 && c.rpcUrls.every(isUrl)) o.rpcUrls = c.rpcUrls as string[];
+    else bad(`${p}.rpcUrls`, "Expected a non-empty array of http(s) URLs");
+  }
+  for (const k of ["explorer", "txService"] as const) {
+    if (c[k] === undefined) continue;
+    if (c[k] === "" || isUrl(c[k])) o[k] = (c[k] as string) || undefined;
+    else bad(`${p}.${k}`, "Expected an http(s) URL or \"\"");
+  }
+  for (const k of ["factory", "multiSendCallOnly"] as const) {
+    if (c[k] === undefined) continue;
+    // "" removes a built-in factory (module not offered on that chain)
+    if (c[k] === "" || (typeof c[k] === "string" && ADDR_RE.test(c[k] as string))) o[k] = (c[k] as string) || undefined;
+    else bad(`${p}.${k}`, "Expected a 0x address or \"\"");
+  }
+  if (c.testnet !== undefined) {
+    if (typeof c.testnet === "boolean") o.testnet = c.testnet;
+    else bad(`${p}.testnet`, "Expected true or false");
+  }
+  if (c.nativeCurrency !== undefined) {
+    const n = c.nativeCurrency;
+    if (
+      isObj(n) &&
+      typeof n.name === "string" &&
+      typeof n.symbol === "string" &&
+      typeof n.decimals === "number" &&
+      Number.isInteger(n.decimals)
+    )
+      o.nativeCurrency = { name: n.name, symbol: n.symbol, decimals: n.decimals };
+    else bad(`${p}.nativeCurrency`, "Expected { name, symbol, decimals }");
+  }
+  return o;
+}
+
+/** Fetch and apply `config.json`; never throws (a missing file means env-only). */
+export async function loadRuntimeConfig() {
+  const url = `${import.meta.env.BASE_URL}config.json`;
+  let raw: unknown;
+  try {
+    const res = await fetch(url, { cache: "no-store" });
+    if (res.status === 404) return;
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const text = await res.text();
+    // Dev servers answer unknown paths with index.html
+    if (/^\s*</.test(text)) return;
+    raw = JSON.parse(text);
+  } catch (e) {
+    issues = [{ path: "config.json", message: `Could not load: ${errorMessage(e)}` }];
+    return;
+  }
+  const r = parseRuntimeConfig(raw, current);
+  current = r.config;
+  issues = r.issues;
+  source = "file";
+}
@@ -0,0 +1,80 @@
+// src/lib/activation.ts
+import { localInputToUtcSeconds, toLocalInputValue } from "./time";
+import { getRuntimeConfig } from "../config/runtime";
+
+export type DurationUnit = "d" | "w" | "mo" | "y";
+export type Duration = { n: number; unit: DurationUnit };
+
+export const UNIT_LABEL: Record<DurationUnit, string> = {
+  d: "days",
+  w: "weeks",
+  mo: "months",
+  y: "years",
+};
+
+export const PRESETS: Duration[] = [
+  { n: 3, unit: "mo" },
+  { n: 6, unit: "mo" },
+  { n: 1, unit: "y" },
+  { n: 2, unit: "y" },
+  { n: 5, unit: "y" },
+];
+
+export const fmtDuration = (d: Duration) => `${d.n}${d.unit === "mo" ? "mo" : d.unit}`;
+
+/**
+ * Calendar-aware add on the wall clock of `timeZone` (browser local when omitted), to
+ * minute precision: "6 months from 31 Aug" clamps to 28/29 Feb, "+1 day" keeps the hour across DST.
+ */
+export function addDuration(baseSec: number, d: Duration, timeZone?: string) {
+  const [y, mo, day, h, mi] = toLocalInputValue(BigInt(baseSec), timeZone).split(/[-T:]/).map(Number);
+  const t = new Date(Date.UTC(y, mo - 1, day, h, mi)); // wall clock held in UTC fields: no DST in the math
+  if (d.unit === "d" || d.unit === "w") {
+    t.setUTCDate(t.getUTCDate() + d.n * (d.unit === "w" ? 7 : 1));
+  } else {
+    const months = d.n * (d.unit === "y" ? 12 : 1);
+    t.setUTCDate(1);
+    t.setUTCMonth(t.getUTCMonth() + months);
+    const last = new Date(Date.UTC(t.getUTCFullYear(), t.getUTCMonth() + 1, 0)).getUTCDate();
+    t.setUTCDate(Math.min(day, last));
+  }
+  return localInputToUtcSeconds(t.toISOString().slice(0, 16), timeZone);
+}
+
+/** Value for the datetime-local input (minute precision, like manual entry). */
+export const durationToLocalInput = (baseSec: number, d: Duration, timeZone?: string) =>
+  toLocalInputValue(BigInt(addDuration(baseSec, d, timeZone)), timeZone);
+
+// --- policy ---
+
+export type ActivationPolicy = {
+  minDays: number; // 0 = no minimum
+  maxDays: number; // 0 = no maximum
+  mode: "warn" | "block";
+};
+
+/** Runtime config `activation` (falls back to VITE_ACTIVATION_MIN_DAYS / _MAX_DAYS / _POLICY). */
+export function getActivationPolicy(): ActivationPolicy {
+  return { ...getRuntimeConfig().activation };
+}
+
+export type PolicyIssue = { level: "warn" | "block"; msg: string };
+
+/** Past times always block; the min/max horizon follows the policy mode. */
+export function checkActivation(ts: number, nowSec: number, policy: ActivationPolicy): PolicyIssue | null {
+  if (ts <= nowSec) return { level: "block", msg: "Activation must be in the future" };
+  const days = (ts - nowSec) / 86400;
+  if (policy.minDays > 0 && days < policy.minDays) {
+    return {
+      level: policy.mode,
+      msg: `Less than the ${policy.minDays}-day minimum horizon — the heir could claim before you notice`,
+    };
+  }
+  if (policy.maxDays > 0 && days > policy.maxDays) {
+    return {
+      level: policy.mode,
+      msg: `More than the ${policy.maxDays}-day maximum horizon — your heir may wait far too long`,
+    };
+  }
+  return null;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { ethers } from "ethers";
+import { parseCsv, parseJson, toCsv, type BookEntry } from "./addressBook";
+
+const A = ethers.getAddress("0x1c511d88ba898b4d9cd9113d13b9c360a02fcea1");
+const B = ethers.getAddress("0x5afe3855358e112b5647b952709e6165e1c1eeee");
+
+describe("toCsv / parseCsv", () => {
+  it("writes the Safe{Wallet} header and round-trips entries", () => {
+    const list: BookEntry[] = [
+      { chainId: 1, address: A, name: "Treasury" },
+      { chainId: 11155111, address: B, name: "Alice's heir" },
+    ];
+    const csv = toCsv(list);
+    expect(csv.split("\n")[0]).toBe("address,name,chainId");
+    expect(parseCsv(csv, null)).toEqual(list);
+  });
+
+  it("quotes names with commas, quotes and line breaks", () => {
+    const list: BookEntry[] = [{ chainId: 1, address: A, name: 'Bob, "the" heir' }];
+    const csv = toCsv(list);
+    expect(csv).toContain('"Bob, ""the"" heir"');
+    expect(parseCsv(csv, null)).toEqual(list);
+  });
+
+  it("finds columns by header name in any order", () => {
+    const csv = `chainId,Name,Address\r\n10,Ops,${A}\r\n`;
+    expect(parseCsv(csv, null)).toEqual([{ chainId: 10, address: A, name: "Ops" }]);
+  });
+
+  it("reads headerless rows as address,name[,chainId] and fills the fallback chain", () => {
+    const csv = `${A},Ops\n${B},Dev,5\n`;
+    expect(parseCsv(csv, 100)).toEqual([
+      { chainId: 100, address: A, name: "Ops" },
+      { chainId: 5, address: B, name: "Dev" },
+    ]);
+  });
+
+  it("skips a byte-order mark and blank lines", () => {
+    expect(parseCsv(`\uFEFFaddress,name,chainId\n\n${A},X,1\n\n`, null)).toEqual([
+      { chainId: 1, address: A, name: "X" },
+    ]);
+    expect(parseCsv("", 1)).toEqual([]);
+  });
+});
+
+describe("parseJson", () => {
+  it("accepts our array export and fills a missing chainId", () => {
+    expect(parseJson(JSON.stringify([{ address: A, name: "X" }]), 5)).toEqual([{ address: A, name: "X", chainId: 5 }]);
+  });
+
+  it("accepts a { chainId: { address: name } } map", () => {
+    expect(parseJson(JSON.stringify({ 1: { [A]: "X" }, 10: { [B]: "Y" } }), null)).toEqual([
+      { chainId: 1, address: A, name: "X" },
+      { chainId: 10, address: B, name: "Y" },
+    ]);
+  });
+
+  it("rejects other JSON", () => {
+    expect(() => parseJson("42", 1)).toThrow("Unrecognized address book JSON");
+  });
+});
@@ -0,0 +1,189 @@
+// src/lib/addressBook.ts
+import { useSyncExternalStore } from "react";
+import { ethers } from "ethers";
+
+/** One label, scoped to a chain (same shape as Safe{Wallet}'s address book). */
+export type BookEntry = { chainId: number; address: string; name: string };
+
+const LS_KEY = "heirsafe:addressBook";
+
+const keyOf = (chainId: number, address: string) => `${chainId}:${address.toLowerCase()}`;
+
+function load(): BookEntry[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(LS_KEY) || "[]");
+    return Array.isArray(raw) ? normalize(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Keep valid rows only; checksum addresses; last duplicate wins. */
+function normalize(list: unknown[]): BookEntry[] {
+  const out = new Map<string, BookEntry>();
+  for (const item of list) {
+    const e = item as Partial<Record<keyof BookEntry, unknown>> | null;
+    const chainId = Number(e?.chainId);
+    const name = String(e?.name ?? "").trim();
+    const addr = e?.address;
+    if (!Number.isInteger(chainId) || chainId <= 0) continue;
+    if (!name || !ethers.isAddress(addr)) continue;
+    const address = ethers.getAddress(addr);
+    out.set(keyOf(chainId, address), { chainId, address, name });
+  }
+  return [...out.values()];
+}
+
+// --- store (shared by every <Address>) ---
+
+let entries: BookEntry[] = load();
+let index = new Map(entries.map((e) => [keyOf(e.chainId, e.address), e.name]));
+let activeChainId: number | null = null;
+const listeners = new Set<() => void>();
+
+type Snapshot = { entries: BookEntry[]; activeChainId: number | null };
+let snapshot: Snapshot = { entries, activeChainId };
+
+function commit(next: BookEntry[], persist = true) {
+  entries = next;
+  index = new Map(entries.map((e) => [keyOf(e.chainId, e.address), e.name]));
+  snapshot = { entries, activeChainId };
+  if (persist) {
+    try {
+      localStorage.setItem(LS_KEY, JSON.stringify(entries));
+    } catch {
+      /* storage blocked */
+    }
+  }
+  listeners.forEach((l) => l());
+}
+
+// other tabs
+if (typeof window !== "undefined") {
+  window.addEventListener("storage", (e) => {
+    if (e.key === LS_KEY) commit(load(), false);
+  });
+}
+
+function subscribe(l: () => void) {
+  listeners.add(l);
+  return () => listeners.delete(l);
+}
+
+/** Network whose labels <Address> shows by default (set by the app shell). */
+export function setActiveBookChain(chainId: number | null) {
+  if (chainId === activeChainId) return;
+  activeChainId = chainId;
+  snapshot = { entries, activeChainId };
+  listeners.forEach((l) => l());
+}
+
+export function getLabel(chainId: number | null | undefined, address: string) {
+  if (chainId == null || !address) return null;
+  return index.get(keyOf(chainId, address)) ?? null;
+}
+
+/** Set or (with an empty name) remove a label. */
+export function setLabel(chainId: number, address: string, name: string) {
+  const rest = entries.filter((e) => keyOf(e.chainId, e.address) !== keyOf(chainId, address));
+  const n = name.trim();
+  commit(n ? [...rest, { chainId, address: ethers.getAddress(address), name: n }] : rest);
+}
+
+/** Merge imported entries (imported labels overwrite); returns how many were accepted. */
+export function importEntries(list: BookEntry[]) {
+  const clean = normalize(list);
+  commit(normalize([...entries, ...clean]));
+  return clean.length;
+}
+
+export function useAddressBook() {
+  return useSyncExternalStore(subscribe, () => snapshot);
+}
+
+/** Label for `address` on `chainId` (defaults to the active network). */
+export function useAddressLabel(address: string, chainId?: number | null) {
+  const { activeChainId: active } = useAddressBook();
+  return getLabel(chainId ?? active, address);
+}
+
+// --- import / export ---
+
+const CSV_HEADER = "address,name,chainId";
+
+function csvField(v: string) {
+  return /[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+}
+
+/** Safe{Wallet} address book CSV: `address,name,chainId`. */
+export function toCsv(list: BookEntry[]) {
+  return [CSV_HEADER, ...list.map((e) => [e.address, csvField(e.name), String(e.chainId)].join(","))].join("\n") + "\n";
+}
+
+function parseCsvLine(line: string) {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cur += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      out.push(cur);
+      cur = "";
+    } else {
+      cur += ch;
+    }
+  }
+  out.push(cur);
+  return out.map((s) => s.trim());
+}
+
+/** Parse Safe{Wallet} CSV; rows without a chainId column take `fallbackChainId`. */
+export function parseCsv(text: string, fallbackChainId: number | null): BookEntry[] {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/).filter((l) => l.trim());
+  if (!lines.length) return [];
+
+  const head = parseCsvLine(lines[0]).map((h) => h.toLowerCase());
+  const hasHeader = head.includes("address");
+  const col = (name: string, dflt: number) => (hasHeader ? head.indexOf(name) : dflt);
+  const [ai, ni, ci] = [col("address", 0), col("name", 1), col("chainid", 2)];
+
+  return (hasHeader ? lines.slice(1) : lines).map((l) => {
+    const f = parseCsvLine(l);
+    return {
+      address: f[ai] ?? "",
+      name: f[ni] ?? "",
+      chainId: ci >= 0 && f[ci] ? Number(f[ci]) : fallbackChainId ?? 0,
+    };
+  });
+}
+
+export function toJson(list: BookEntry[]) {
+  return JSON.stringify(list, null, 2);
+}
+
+/** Accepts our JSON export (array of entries) or a Safe-style `{ chainId: { address: name } }` map. */
+export function parseJson(text: string, fallbackChainId: number | null): BookEntry[] {
+  const v = JSON.parse(text);
+  if (Array.isArray(v)) return v.map((e) => ({ ...e, chainId: e?.chainId ?? fallbackChainId }));
+  if (v && typeof v === "object") {
+    return Object.entries(v).flatMap(([chainId, book]) =>
+      Object.entries((book ?? {}) as Record<string, string>).map(([address, name]) => ({
+        chainId: Number(chainId),
+        address,
+        name,
+      }))
+    );
+  }
+  throw new Error("Unrecognized address book JSON");
+}
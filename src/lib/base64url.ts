@@ -0,0 +1,17 @@
+// src/lib/base64url.ts
+import { ethers } from "ethers";
+
+/** UTF-8 string → URL-safe base64 without padding (for `#…=` link payloads). */
+export function toBase64Url(s: string) {
+  return ethers
+    .encodeBase64(ethers.toUtf8Bytes(s))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function fromBase64Url(s: string) {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = b64 + "=".repeat((4 - (b64.length % 4)) % 4);
+  return ethers.toUtf8String(ethers.decodeBase64(padded));
+}
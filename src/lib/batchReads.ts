@@ -0,0 +1,114 @@
+// src/lib/batchReads.ts
+import { ethers } from "ethers";
+import { SafeABI } from "../abi/Safe";
+import { HeirSafeModuleABI } from "../abi/HeirSafeModule";
+import { HeirSafeModuleFactoryABI } from "../abi/HeirSafeModuleFactory";
+import { multicall } from "./multicall";
+import { isModuleEnabled } from "./moduleInstall";
+import {
+  safeProbeCalls,
+  toSafeValidation,
+  type SafeValidationResult,
+} from "./safeValidation";
+
+const safeIface = new ethers.Interface(SafeABI);
+const moduleIface = new ethers.Interface(HeirSafeModuleABI);
+const factoryIface = new ethers.Interface(HeirSafeModuleFactoryABI);
+
+export type InstallState = {
+  validation: SafeValidationResult;
+  factoryDeployed: boolean;
+  predicted: string;
+  deployed: boolean;
+  enabled: boolean;
+};
+
+/**
+ * Everything the install panel needs in two round trips:
+ *  1) Safe code + factory code + [owners, threshold, version, predict] via Multicall3
+ *  2) predicted module code + [isModuleEnabled] via Multicall3
+ */
+export async function readInstallState(
+  provider: ethers.Provider,
+  safe: string,
+  factory: string,
+  saltHex: string
+): Promise<InstallState> {
+  const [safeCode, factoryCode, res] = await Promise.all([
+    provider.getCode(safe),
+    provider.getCode(factory),
+    multicall(provider, [
+      ...safeProbeCalls(safe),
+      { target: factory, iface: factoryIface, fn: "predict", args: [safe, saltHex] },
+    ]),
+  ]);
+
+  const validation = toSafeValidation(safeCode, res.slice(0, 3));
+  const factoryDeployed = !!factoryCode && factoryCode !== "0x";
+  const pr = res[3];
+  if (!validation.ok || !factoryDeployed || !pr.ok) {
+    return { validation, factoryDeployed, predicted: "", deployed: false, enabled: false };
+  }
+  const predicted = pr.value[0] as string;
+
+  const [moduleCode, [en]] = await Promise.all([
+    provider.getCode(predicted),
+    multicall(provider, [
+      { target: safe, iface: safeIface, fn: "isModuleEnabled", args: [predicted] },
+    ]),
+  ]);
+  const deployed = !!moduleCode && moduleCode !== "0x";
+
+  let enabled = false;
+  if (deployed) {
+    // Very old Safes lack isModuleEnabled(); page through the module list instead
+    enabled = en.ok ? Boolean(en.value[0]) : await isModuleEnabled(provider, safe, predicted);
+  }
+
+  return { validation, factoryDeployed, predicted, deployed, enabled };
+}
+
+export type HeirConfigRow = { owner: string; beneficiary: string; ts: bigint };
+
+/**
+ * Owners plus every owner's heirConfigs() in two round trips.
+ * Rows keep zero config when the module has no code or a read fails.
+ */
+export async function readHeirRows(
+  provider: ethers.Provider,
+  safe: string,
+  module: string
+): Promise<{ rows: HeirConfigRow[]; moduleHasCode: boolean }> {
+  const [[ownersRes], code] = await Promise.all([
+    multicall(provider, [{ target: safe, iface: safeIface, fn: "getOwners" }]),
+    ethers.isAddress(module) ? provider.getCode(module) : Promise.resolve("0x"),
+  ]);
+  if (!ownersRes.ok) throw new Error(`getOwners failed: ${ownersRes.error}`);
+
+  const owners = [...(ownersRes.value[0] as string[])];
+  const moduleHasCode = !!code && code !== "0x";
+  const empty = (owner: string): HeirConfigRow => ({
+    owner,
+    beneficiary: ethers.ZeroAddress,
+    ts: 0n,
+  });
+  if (!moduleHasCode) return { rows: owners.map(empty), moduleHasCode };
+
+  const cfgs = await multicall(
+    provider,
+    owners.map((o) => ({ target: module, iface: moduleIface, fn: "heirConfigs", args: [o] }))
+  );
+  const rows = owners.map((owner, i) => {
+    const r = cfgs[i];
+    if (!r.ok) {
+      console.debug("heirConfigs failed for", owner, r.error);
+      return empty(owner);
+    }
+    return {
+      owner,
+      beneficiary: (r.value.beneficiary as string) || ethers.ZeroAddress,
+      ts: BigInt(r.value.activationTime),
+    };
+  });
+  return { rows, moduleHasCode };
+}
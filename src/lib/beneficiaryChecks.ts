@@ -0,0 +1,152 @@
+// src/lib/beneficiaryChecks.ts
+import { ethers } from "ethers";
+import { SENTINEL } from "../abi/Safe";
+import { multicall } from "./multicall";
+import { safeProbeCalls, toSafeValidation } from "./safeValidation";
+import type { BookEntry } from "./addressBook";
+
+export type BeneficiaryIssue = {
+  /** "block": saving is refused; "warn": needs explicit acknowledgement. */
+  level: "block" | "warn" | "info";
+  code:
+    | "invalid"
+    | "self"
+    | "owner"
+    | "safe"
+    | "module"
+    | "burn"
+    | "contract_no_wallet"
+    | "contract_safe"
+    | "delegated_eoa"
+    | "lookalike";
+  msg: string;
+};
+
+type Input = {
+  provider: ethers.Provider;
+  safe: string;
+  module: string;
+  owner: string; // owner designating the heir
+  owners: string[]; // current Safe owners
+  beneficiary: string;
+  book?: BookEntry[]; // labels to compare against (address poisoning)
+};
+
+const BURN = new Set(
+  [
+    ethers.ZeroAddress,
+    SENTINEL,
+    "0x000000000000000000000000000000000000dEaD",
+    "0xdEAD000000000000000042069420694206942069",
+    "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE", // "native token" placeholder
+    "0xFFfFfFffFFfffFFfFFfFFFFFffFFFffffFfFFFfF",
+  ].map((a) => a.toLowerCase())
+);
+
+const eq = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+const short = (a: string) => `${a.slice(0, 6)}…${a.slice(-4)}`;
+
+/** Precompiles live at 0x01…0x0a on mainnet and go higher on L2s; treat 0x00…00ff and below as reserved. */
+function isReserved(addr: string) {
+  return BigInt(addr) <= 0xffn;
+}
+
+/** Same first and last 4 hex chars but a different address — the usual poisoning pattern. */
+function looksAlike(a: string, b: string) {
+  const x = a.toLowerCase();
+  const y = b.toLowerCase();
+  return x !== y && x.slice(2, 6) === y.slice(2, 6) && x.slice(-4) === y.slice(-4);
+}
+
+const walletIface = new ethers.Interface([
+  "function isOwner(address) view returns (bool)",
+  "function supportsInterface(bytes4) view returns (bool)",
+]);
+
+/**
+ * Pre-submit review for setBeneficiary. A wrong heir is only discovered when
+ * the claim fails years later, so anything that cannot work is blocked and
+ * anything suspicious must be acknowledged.
+ */
+export async function reviewBeneficiary({
+  provider,
+  safe,
+  module,
+  owner,
+  owners,
+  beneficiary,
+  book = [],
+}: Input): Promise<BeneficiaryIssue[]> {
+  if (!ethers.isAddress(beneficiary)) {
+    return [{ level: "block", code: "invalid", msg: "Not a valid address" }];
+  }
+  const b = ethers.getAddress(beneficiary);
+  const issues: BeneficiaryIssue[] = [];
+
+  if (eq(b, owner)) {
+    issues.push({ level: "block", code: "self", msg: "This is the owner's own address" });
+  } else if (owners.some((o) => eq(o, b))) {
+    issues.push({
+      level: "block",
+      code: "owner",
+      msg: "Already an owner of this Safe — the claim would revert (GS204) while they remain an owner",
+    });
+  }
+  if (eq(b, safe)) {
+    issues.push({ level: "block", code: "safe", msg: "This is the Safe itself — a Safe cannot own itself (GS203)" });
+  }
+  if (ethers.isAddress(module) && eq(b, module)) {
+    issues.push({ level: "block", code: "module", msg: "This is the HeirSafe module, not a wallet" });
+  }
+  if (BURN.has(b.toLowerCase()) || isReserved(b)) {
+    issues.push({ level: "block", code: "burn", msg: "Burn, sentinel or precompile address — nobody can claim from it" });
+  }
+
+  // Address poisoning: near-identical to a known address
+  const known = [
+    ...owners.map((o) => ({ address: o, name: `owner ${short(o)}` })),
+    ...book.map((e) => ({ address: e.address, name: e.name })),
+  ];
+  const twin = known.find((k) => looksAlike(k.address, b));
+  if (twin) {
+    issues.push({
+      level: "warn",
+      code: "lookalike",
+      msg: `Looks like “${twin.name}” (${twin.address}) but is a different address — possible address poisoning`,
+    });
+  }
+
+  if (issues.some((i) => i.level === "block")) return issues;
+
+  // Contract heirs must be able to send claimSafe
+  const code = await provider.getCode(b);
+  if (code && code !== "0x") {
+    if (code.toLowerCase().startsWith("0xef0100")) {
+      issues.push({ level: "info", code: "delegated_eoa", msg: "EOA with an EIP-7702 delegation — it can still send transactions" });
+    } else {
+      const res = await multicall(provider, [
+        ...safeProbeCalls(b),
+        { target: b, iface: walletIface, fn: "isOwner", args: [owner] },
+        { target: b, iface: walletIface, fn: "supportsInterface", args: ["0x1626ba7e"] }, // ERC-1271
+      ]);
+      const [isOwner, erc165] = res.slice(3);
+
+      const asSafe = toSafeValidation(code, res.slice(0, 3));
+      if (asSafe.ok) {
+        issues.push({
+          level: "info",
+          code: "contract_safe",
+          msg: `A Safe (${asSafe.threshold} of ${asSafe.owners.length}) — its owners will need to sign the claim`,
+        });
+      } else if (!isOwner.ok && !(erc165.ok && erc165.value[0] === true)) {
+        issues.push({
+          level: "warn",
+          code: "contract_no_wallet",
+          msg: "A contract without a recognizable wallet interface (no isOwner / ERC-1271) — it may never be able to call claimSafe",
+        });
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,120 @@
+// src/lib/claim.ts
+import { ethers } from "ethers";
+import { HeirSafeModuleABI } from "../abi/HeirSafeModule";
+import { computePrevOwner } from "./safeHelpers";
+import { validateSafeOnChain } from "./safeValidation";
+import { errorMessage, type ErrorLike } from "./errors";
+
+/** Safe contract revert codes, phrased for the person claiming. */
+const GS_ERRORS: Record<string, string> = {
+  GS013: "The Safe transaction failed",
+  GS025: "Transaction hash has not been approved",
+  GS026: "Invalid owner provided",
+  GS031: "This method can only be called by the Safe itself",
+  GS101: "Invalid module address",
+  GS102: "Module is already enabled",
+  GS104: "The HeirSafe module is not enabled on this Safe",
+  GS201: "Threshold cannot exceed the number of owners",
+  GS202: "Threshold must be greater than 0",
+  GS203: "The new owner address is invalid (zero, sentinel or the Safe itself)",
+  GS204: "You are already an owner of this Safe — a Safe cannot list the same owner twice",
+  GS205: "The owner list changed (prevOwner mismatch) — reload and try again",
+};
+
+/** Pull a GSxxx code out of a revert (reason, message or raw Error(string) data). */
+export function safeErrorCode(err: unknown): string | null {
+  const e = err as (ErrorLike & { info?: { error?: { data?: unknown } } }) | null;
+  const text = `${e?.reason || ""} ${e?.shortMessage || ""} ${e?.message || ""}`;
+  const m = text.match(/GS\d{3}/);
+  if (m) return m[0];
+  const data = e?.data || e?.info?.error?.data;
+  if (typeof data === "string" && data.startsWith("0x08c379a0")) {
+    try {
+      const [msg] = ethers.AbiCoder.defaultAbiCoder().decode(["string"], "0x" + data.slice(10));
+      return (msg as string).match(/GS\d{3}/)?.[0] ?? null;
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+/** Human-readable revert message; falls back to the raw reason. */
+export function describeClaimError(err: unknown, fallback = "Claim would revert") {
+  const code = safeErrorCode(err);
+  if (code) return `${GS_ERRORS[code] ?? "Safe rejected the call"} (${code})`;
+  return errorMessage(err, fallback);
+}
+
+export type ClaimPreview = {
+  owners: string[]; // current
+  after: string[]; // post-claim, same order (swapOwner keeps position)
+  threshold: number;
+  version?: string;
+  prevOwner: string | null;
+  heirAlreadyOwner: boolean;
+  /** Seats the heir holds once the claim lands. */
+  heirSeats: number;
+  /** claimSafe staticCall from the heir's address. */
+  simulation: { ok: true } | { ok: false; error: string };
+};
+
+/** What the Safe looks like if `heir` claims `owner`'s seat right now. */
+export async function previewClaim(
+  provider: ethers.Provider,
+  safe: string,
+  module: string,
+  owner: string,
+  heir: string
+): Promise<ClaimPreview> {
+  const v = await validateSafeOnChain(provider, safe);
+  if (!v.ok) throw new Error(`Not a Safe (${v.reason})`);
+
+  const eq = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+  const prevOwner = await computePrevOwner(provider, safe, owner).catch(() => null);
+  const after = v.owners.map((o) => (eq(o, owner) ? ethers.getAddress(heir) : o));
+
+  let simulation: ClaimPreview["simulation"] = { ok: true };
+  if (prevOwner == null) {
+    simulation = { ok: false, error: "Owner is no longer in the Safe" };
+  } else {
+    try {
+      const mod = new ethers.Contract(module, HeirSafeModuleABI, provider);
+      await mod.claimSafe.staticCall(owner, prevOwner, { from: heir });
+    } catch (e) {
+      simulation = { ok: false, error: describeClaimError(e) };
+    }
+  }
+
+  return {
+    owners: v.owners,
+    after,
+    threshold: v.threshold,
+    version: v.version,
+    prevOwner,
+    heirAlreadyOwner: v.owners.some((o) => eq(o, heir)),
+    heirSeats: after.filter((o) => eq(o, heir)).length,
+    simulation,
+  };
+}
+
+/** claimSafe(owner, prevOwner) with a staticCall preflight; resolves once the tx is sent. */
+export async function sendClaim(
+  signer: ethers.Signer,
+  readProvider: ethers.Provider,
+  safe: string,
+  module: string,
+  owner: string
+): Promise<ethers.ContractTransactionResponse> {
+  const prev = await computePrevOwner(readProvider, safe, owner);
+  const mod = new ethers.Contract(module, HeirSafeModuleABI, signer);
+
+  // Preflight: revert early if would fail
+  try {
+    await mod.claimSafe.staticCall(owner, prev);
+  } catch (e) {
+    throw new Error(describeClaimError(e));
+  }
+
+  return mod.claimSafe(owner, prev);
+}
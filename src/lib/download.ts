@@ -0,0 +1,12 @@
+// src/lib/download.ts
+
+/** Save `text` as a file via a temporary object URL. */
+export function downloadText(filename: string, text: string, type: string) {
+  const blob = new Blob([text], { type });
+  const href = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = href;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(href);
+}
@@ -0,0 +1,90 @@
+// src/lib/ens.ts
+import { ethers } from "ethers";
+import { getPublicProvider } from "./rpc";
+
+/** ENS lives on mainnet; every chain resolves through it. */
+const ENS_CHAIN_ID = 1;
+const ENS_REGISTRY = "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e";
+
+const registryAbi = ["function resolver(bytes32 node) view returns (address)"];
+const nameAbi = ["function name(bytes32 node) view returns (string)"];
+
+export type EnsName = {
+  name: string;
+  /** true when the name resolves forward to the same address */
+  verified: boolean;
+  avatar: string | null;
+};
+
+const forwardCache = new Map<string, Promise<string | null>>();
+const reverseCache = new Map<string, Promise<EnsName | null>>();
+
+function ensProvider() {
+  return getPublicProvider(ENS_CHAIN_ID);
+}
+
+/** "vitalik.eth", "pay.alice.eth" — anything dotted that isn't hex. */
+export function looksLikeEnsName(s: string) {
+  const v = s.trim();
+  return /^[^\s.]+(\.[^\s.]+)+$/.test(v) && !v.startsWith("0x");
+}
+
+/** Forward-resolve an ENS name to a checksummed address (null if unset/unknown). */
+export function resolveEnsName(name: string): Promise<string | null> {
+  const key = name.trim().toLowerCase();
+  let hit = forwardCache.get(key);
+  if (!hit) {
+    const p = ensProvider();
+    hit = p
+      ? p
+          .resolveName(key)
+          .then((a) => (a ? ethers.getAddress(a) : null))
+          .catch((e) => {
+            console.debug("[ens] resolve failed:", key, e);
+            forwardCache.delete(key);
+            return null;
+          })
+      : Promise.resolve(null);
+    forwardCache.set(key, hit);
+  }
+  return hit;
+}
+
+async function readReverseRecord(p: ethers.Provider, addr: string) {
+  const node = ethers.namehash(`${addr.slice(2).toLowerCase()}.addr.reverse`);
+  const registry = new ethers.Contract(ENS_REGISTRY, registryAbi, p);
+  const resolver: string = await registry.resolver(node);
+  if (resolver === ethers.ZeroAddress) return null;
+  const name: string = await new ethers.Contract(resolver, nameAbi, p).name(node);
+  return name || null;
+}
+
+/**
+ * Reverse-resolve an address. Unlike provider.lookupAddress() this keeps names
+ * whose forward record points elsewhere, flagged `verified: false`.
+ */
+export function lookupEnsName(addr: string): Promise<EnsName | null> {
+  if (!ethers.isAddress(addr) || addr === ethers.ZeroAddress) return Promise.resolve(null);
+  const key = addr.toLowerCase();
+  let hit = reverseCache.get(key);
+  if (!hit) {
+    const p = ensProvider();
+    hit = (async () => {
+      if (!p) return null;
+      try {
+        const name = await readReverseRecord(p, addr);
+        if (!name) return null;
+        const forward = await resolveEnsName(name);
+        const verified = !!forward && forward.toLowerCase() === key;
+        const avatar = verified ? await p.getAvatar(name).catch(() => null) : null;
+        return { name, verified, avatar };
+      } catch (e) {
+        console.debug("[ens] reverse lookup failed:", addr, e);
+        reverseCache.delete(key);
+        return null;
+      }
+    })();
+    reverseCache.set(key, hit);
+  }
+  return hit;
+}
@@ -0,0 +1,16 @@
+// src/lib/errors.ts
+
+/** Fields ethers, wallets and JSON-RPC nodes attach to what they throw. */
+export type ErrorLike = {
+  code?: unknown;
+  reason?: string | null;
+  shortMessage?: string;
+  message?: string;
+  data?: unknown;
+};
+
+/** Readable message for a caught value: revert reason first, then ethers/viem's short message, then the full one. */
+export function errorMessage(e: unknown, fallback?: string) {
+  const err = e as ErrorLike | null | undefined;
+  return err?.reason || err?.shortMessage || err?.message || fallback || String(e);
+}
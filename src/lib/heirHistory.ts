@@ -0,0 +1,126 @@
+// src/lib/heirHistory.ts
+import { ethers } from "ethers";
+import { HeirSafeModuleABI } from "../abi/HeirSafeModule";
+import { HeirSafeModuleFactoryABI } from "../abi/HeirSafeModuleFactory";
+
+export type HistoryKind = "deployed" | "designated" | "removed" | "prolonged";
+
+export type HistoryEntry = {
+  kind: HistoryKind;
+  owner?: string;
+  beneficiary?: string;
+  activationTime?: bigint;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+  timestamp?: number; // block time (UTC seconds), filled by withTimestamps()
+};
+
+const moduleIface = new ethers.Interface(HeirSafeModuleABI);
+const factoryIface = new ethers.Interface(HeirSafeModuleFactoryABI);
+
+const T_BENEFICIARY = moduleIface.getEvent("BeneficiarySet")!.topicHash;
+const T_ACTIVATION = moduleIface.getEvent("ActivationTimeSet")!.topicHash;
+const T_DEPLOYED = factoryIface.getEvent("ModuleDeployed")!.topicHash;
+
+/** One eth_getLogs filter covering module config events and the factory's deploy event. */
+export function historyFilter(module: string, factory?: string | null) {
+  return {
+    address: factory ? [module, factory] : module,
+    topics: [[T_BENEFICIARY, T_ACTIVATION, T_DEPLOYED]],
+  };
+}
+
+/**
+ * Decode raw logs into per-owner history, oldest first. A BeneficiarySet and
+ * ActivationTimeSet for the same owner in one tx collapse into one entry;
+ * a lone ActivationTimeSet is a prolongation, a zero beneficiary a removal.
+ */
+export function decodeHistory(logs: ethers.Log[], safe: string, module: string): HistoryEntry[] {
+  const sorted = [...logs].sort((a, b) =>
+    a.blockNumber !== b.blockNumber ? a.blockNumber - b.blockNumber : a.index - b.index
+  );
+  const out: HistoryEntry[] = [];
+  const byTxOwner = new Map<string, HistoryEntry>();
+  const isModule = (a: string) => a.toLowerCase() === module.toLowerCase();
+
+  for (const log of sorted) {
+    const base = { blockNumber: log.blockNumber, txHash: log.transactionHash, logIndex: log.index };
+    const t0 = log.topics[0];
+
+    if (t0 === T_DEPLOYED) {
+      const ev = factoryIface.parseLog(log);
+      if (!ev) continue;
+      if (ev.args.safe.toLowerCase() !== safe.toLowerCase() || !isModule(ev.args.module)) continue;
+      out.push({ kind: "deployed", ...base });
+      continue;
+    }
+    if (!isModule(log.address)) continue;
+
+    const ev = moduleIface.parseLog(log);
+    if (!ev) continue;
+    const owner = ethers.getAddress(ev.args.owner);
+    const key = `${log.transactionHash}:${owner}`;
+    const prev = byTxOwner.get(key);
+
+    if (t0 === T_BENEFICIARY) {
+      const beneficiary = ethers.getAddress(ev.args.beneficiary);
+      const kind: HistoryKind = beneficiary === ethers.ZeroAddress ? "removed" : "designated";
+      if (prev) {
+        prev.kind = kind;
+        prev.beneficiary = beneficiary;
+      } else {
+        const e: HistoryEntry = { kind, owner, beneficiary, ...base };
+        byTxOwner.set(key, e);
+        out.push(e);
+      }
+    } else if (t0 === T_ACTIVATION) {
+      const activationTime = BigInt(ev.args.activationTime);
+      if (prev) {
+        prev.activationTime = activationTime;
+      } else {
+        const e: HistoryEntry = { kind: "prolonged", owner, activationTime, ...base };
+        byTxOwner.set(key, e);
+        out.push(e);
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Lowest block where `addr` has code, by binary search over eth_getCode.
+ * Needs archive state; returns 0 (scan everything) when the RPC can't serve it.
+ */
+export async function findDeployBlock(provider: ethers.Provider, addr: string, latest: number) {
+  try {
+    let lo = 0;
+    let hi = latest;
+    while (lo < hi) {
+      const mid = Math.floor((lo + hi) / 2);
+      const code = await provider.getCode(addr, mid);
+      if (code && code !== "0x") hi = mid;
+      else lo = mid + 1;
+    }
+    return lo;
+  } catch (e) {
+    console.debug("[heirHistory] no archive state, scanning from genesis:", e);
+    return 0;
+  }
+}
+
+/** Attach block timestamps, reusing `cache` (blockNumber → seconds) across pages. */
+export async function withTimestamps(
+  provider: ethers.Provider,
+  entries: HistoryEntry[],
+  cache: Map<number, number>
+) {
+  const missing = [...new Set(entries.map((e) => e.blockNumber))].filter((n) => !cache.has(n));
+  await Promise.all(
+    missing.map(async (n) => {
+      const b = await provider.getBlock(n);
+      if (b) cache.set(n, Number(b.timestamp));
+    })
+  );
+  return entries.map((e) => ({ ...e, timestamp: cache.get(e.blockNumber) }));
+}
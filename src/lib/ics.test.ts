@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { buildActivationCalendar, parseReminderDays, type IcsActivation } from "./ics";
+
+const item: IcsActivation = {
+  safe: "0x1c511D88ba898b4D9cd9113D13B9c360a02Fcea1",
+  owner: "0x5AfE3855358E112B5647B952709E6165e1c1eEEe",
+  beneficiary: "0x000000000000000000000000000000000000dEaD",
+  ts: 1767225600n, // 2026-01-01T00:00:00Z
+  chainName: "Sepolia",
+  url: "https://app.example/?safe=0x1c511D88ba898b4D9cd9113D13B9c360a02Fcea1",
+};
+
+// RFC 5545 §3.1: a CRLF followed by one space continues the previous line
+const unfold = (ics: string) => ics.replace(/\r\n /g, "");
+
+describe("parseReminderDays", () => {
+  it("keeps unique positive day counts, largest first", () => {
+    expect(parseReminderDays("1, 30;7 7  abc 0 -2 4000")).toEqual([30, 7, 1]);
+    expect(parseReminderDays("")).toEqual([]);
+  });
+});
+
+describe("buildActivationCalendar", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-06-15T12:34:56.789Z"));
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("wraps events in a CRLF-terminated VCALENDAR", () => {
+    const ics = buildActivationCalendar([item], []);
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+  });
+
+  it("writes one VEVENT per activation in basic UTC format", () => {
+    const lines = unfold(buildActivationCalendar([item, { ...item, ts: item.ts + 86400n }], [])).split("\r\n");
+    expect(lines.filter((l) => l === "BEGIN:VEVENT")).toHaveLength(2);
+    expect(lines).toContain("DTSTAMP:20250615T123456Z");
+    expect(lines).toContain("DTSTART:20260101T000000Z");
+    expect(lines).toContain("DTEND:20260101T003000Z");
+    expect(lines).toContain("DTSTART:20260102T000000Z");
+    expect(lines).toContain(`UID:${item.safe.toLowerCase()}-${item.owner.toLowerCase()}-${item.ts}@heirsafe`);
+    expect(lines).toContain(`URL:${item.url}`);
+  });
+
+  it("adds a display alarm per reminder day", () => {
+    const ics = unfold(buildActivationCalendar([item], [30, 1]));
+    expect(ics.match(/BEGIN:VALARM/g)).toHaveLength(2);
+    expect(ics).toContain("TRIGGER:-P30D");
+    expect(ics).toContain("TRIGGER:-P1D");
+    expect(ics).toContain("in 1 day —");
+  });
+
+  it("escapes text values", () => {
+    const ics = unfold(buildActivationCalendar([{ ...item, chainName: "Test; net, 2" }], []));
+    const desc = ics.split("\r\n").find((l) => l.startsWith("DESCRIPTION:"));
+    expect(desc).toContain(String.raw`(Test\; net\, 2)\nOwner: `);
+  });
+
+  it("folds lines at 75 octets without splitting characters", () => {
+    const ics = buildActivationCalendar([{ ...item, chainName: "Ñetwork ".repeat(20) }], [7]);
+    const enc = new TextEncoder();
+    for (const line of ics.split("\r\n")) expect(enc.encode(line).length).toBeLessThanOrEqual(75);
+    expect(ics).not.toContain("�");
+    expect(unfold(ics)).toContain("Ñetwork ".repeat(20).trimEnd());
+  });
+});
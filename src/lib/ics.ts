@@ -0,0 +1,99 @@
+// src/lib/ics.ts
+import { fmtUTC } from "./time";
+
+export type IcsActivation = {
+  safe: string;
+  owner: string;
+  beneficiary: string;
+  ts: bigint; // activation time, UTC seconds
+  chainName?: string;
+  url?: string; // deep link back to the app
+};
+
+const short = (a: string) => `${a.slice(0, 6)}…${a.slice(-4)}`;
+
+/** 2025-01-02T03:04:05.000Z → 20250102T030405Z */
+function icsDate(ts: bigint) {
+  return fmtUTC(ts).replace(/\.\d{3}/, "").replace(/[-:]/g, "");
+}
+
+function escapeText(s: string) {
+  return s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** RFC 5545 line folding: max 75 octets per line, continuation lines start with a space. */
+function fold(line: string) {
+  const enc = new TextEncoder();
+  const out: string[] = [];
+  let cur = "";
+  for (const ch of line) {
+    if (enc.encode(cur + ch).length > (out.length ? 74 : 75)) {
+      out.push(cur);
+      cur = ch;
+    } else {
+      cur += ch;
+    }
+  }
+  out.push(cur);
+  return out.join("\r\n ");
+}
+
+/** Parse "30, 7, 1" into unique positive day counts, largest first. */
+export function parseReminderDays(v: string) {
+  const days = v
+    .split(/[\s,;]+/)
+    .map((x) => parseInt(x, 10))
+    .filter((n) => Number.isFinite(n) && n > 0 && n <= 3650);
+  return [...new Set(days)].sort((a, b) => b - a);
+}
+
+/** One VEVENT per activation time, each with a display alarm per reminder day. */
+export function buildActivationCalendar(items: IcsActivation[], reminderDays: number[]) {
+  const stamp = icsDate(BigInt(Math.floor(Date.now() / 1000)));
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//HeirSafe//Activation deadlines//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+
+  for (const it of items) {
+    const summary = `HeirSafe activation · owner ${short(it.owner)}`;
+    const description = [
+      `Safe: ${it.safe}${it.chainName ? ` (${it.chainName})` : ""}`,
+      `Owner: ${it.owner}`,
+      `Beneficiary: ${it.beneficiary}`,
+      `Activation (UTC): ${fmtUTC(it.ts)}`,
+      "After this time the beneficiary can claim this owner's seat. Prolong before then if you are still in control.",
+      it.url ? `Open: ${it.url}` : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${it.safe.toLowerCase()}-${it.owner.toLowerCase()}-${it.ts}@heirsafe`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsDate(it.ts)}`,
+      `DTEND:${icsDate(it.ts + 1800n)}`,
+      `SUMMARY:${escapeText(summary)}`,
+      `DESCRIPTION:${escapeText(description)}`
+    );
+    if (it.url) lines.push(`URL:${it.url}`);
+
+    for (const d of reminderDays) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `TRIGGER:-P${d}D`,
+        `DESCRIPTION:${escapeText(`${summary} in ${d} day${d !== 1 ? "s" : ""} — prolong if needed`)}`,
+        "END:VALARM"
+      );
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
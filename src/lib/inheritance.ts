@@ -0,0 +1,138 @@
+// src/lib/inheritance.ts
+import { ethers } from "ethers";
+import { HeirSafeModuleABI } from "../abi/HeirSafeModule";
+import { HeirSafeModuleFactoryABI } from "../abi/HeirSafeModuleFactory";
+import { SafeABI } from "../abi/Safe";
+import { getFactoryAddress } from "../config/chains";
+import { getPublicProvider } from "./rpc";
+import { scanLogsBackward } from "./logs";
+import { multicall } from "./multicall";
+import { getInstallSalt } from "./moduleInstall";
+import { findDeployBlock } from "./heirHistory";
+import { errorMessage } from "./errors";
+
+/** A Safe seat the connected wallet is currently designated to inherit. */
+export type InheritedSeat = {
+  chainId: number;
+  module: string;
+  safe: string;
+  owner: string;
+  activationTime: bigint;
+  /** module == factory.predict(safe, salt), i.e. deployed by our factory */
+  verified: boolean;
+  /** owner still holds a seat in the Safe */
+  ownerActive: boolean;
+};
+
+/** Per-chain progress of a backwards log scan. */
+export type ChainScan = {
+  chainId: number;
+  nextToBlock: number | null; // null = fully scanned
+  stopBlock: number;
+  chunk?: number;
+  pairs: { module: string; owner: string }[]; // every (module, owner) seen so far
+  error?: string;
+};
+
+const moduleIface = new ethers.Interface(HeirSafeModuleABI);
+const factoryIface = new ethers.Interface(HeirSafeModuleFactoryABI);
+const safeIface = new ethers.Interface(SafeABI);
+const T_BENEFICIARY = moduleIface.getEvent("BeneficiarySet")!.topicHash;
+
+/**
+ * Scan one more page of BeneficiarySet(owner, beneficiary = me) logs on a chain,
+ * from any emitting contract. Starts at the latest block and never goes below
+ * the factory's deploy block (no module can predate it).
+ */
+export async function scanChainPage(
+  chainId: number,
+  beneficiary: string,
+  prev?: ChainScan
+): Promise<ChainScan> {
+  const provider = getPublicProvider(chainId);
+  const factory = getFactoryAddress(chainId);
+  if (!provider || !factory) {
+    return { chainId, nextToBlock: null, stopBlock: 0, pairs: [], error: "Not configured" };
+  }
+
+  try {
+    let toBlock = prev?.nextToBlock;
+    let stopBlock = prev?.stopBlock ?? 0;
+    if (toBlock == null) {
+      toBlock = await provider.getBlockNumber();
+      stopBlock = await findDeployBlock(provider, factory, toBlock);
+    }
+
+    const page = await scanLogsBackward(
+      provider,
+      { topics: [T_BENEFICIARY, null, ethers.zeroPadValue(beneficiary, 32)] },
+      toBlock,
+      stopBlock,
+      { chunk: prev?.chunk, maxRequests: 10 }
+    );
+
+    const pairs = [...(prev?.pairs ?? [])];
+    for (const log of page.logs) {
+      const ev = moduleIface.parseLog(log);
+      if (!ev) continue;
+      const module = ethers.getAddress(log.address);
+      const owner = ethers.getAddress(ev.args.owner);
+      if (!pairs.some((p) => p.module === module && p.owner === owner)) pairs.push({ module, owner });
+    }
+    return { chainId, nextToBlock: page.nextToBlock, stopBlock, chunk: page.chunk, pairs };
+  } catch (e) {
+    const base: ChainScan = prev ?? { chainId, nextToBlock: null, stopBlock: 0, pairs: [] };
+    return { ...base, error: errorMessage(e, "Scan failed") };
+  }
+}
+
+/**
+ * Resolve scanned (module, owner) pairs to seats that are still current:
+ * module.avatar() → Safe, then heirConfigs(owner).beneficiary must still be `me`.
+ */
+export async function resolveSeats(scan: ChainScan, me: string): Promise<InheritedSeat[]> {
+  const provider = getPublicProvider(scan.chainId);
+  const factory = getFactoryAddress(scan.chainId);
+  if (!provider || !factory || scan.pairs.length === 0) return [];
+
+  const modules = [...new Set(scan.pairs.map((p) => p.module))];
+  const avatars = await multicall(
+    provider,
+    modules.map((m) => ({ target: m, iface: moduleIface, fn: "avatar" }))
+  );
+  const safeOf = new Map<string, string>();
+  modules.forEach((m, i) => {
+    const r = avatars[i];
+    if (r.ok) safeOf.set(m, ethers.getAddress(r.value[0] as string));
+  });
+
+  const pairs = scan.pairs.filter((p) => safeOf.has(p.module));
+  const salt = getInstallSalt();
+  const res = await multicall(
+    provider,
+    pairs.flatMap((p) => {
+      const safe = safeOf.get(p.module)!;
+      return [
+        { target: p.module, iface: moduleIface, fn: "heirConfigs", args: [p.owner] },
+        { target: safe, iface: safeIface, fn: "isOwner", args: [p.owner] },
+        { target: factory, iface: factoryIface, fn: "predict", args: [safe, salt] },
+      ];
+    })
+  );
+
+  const seats: InheritedSeat[] = [];
+  pairs.forEach((p, i) => {
+    const [cfg, isOwner, predicted] = res.slice(i * 3, i * 3 + 3);
+    if (!cfg.ok || (cfg.value.beneficiary as string).toLowerCase() !== me.toLowerCase()) return;
+    seats.push({
+      chainId: scan.chainId,
+      module: p.module,
+      safe: safeOf.get(p.module)!,
+      owner: p.owner,
+      activationTime: BigInt(cfg.value.activationTime),
+      verified: predicted.ok && (predicted.value[0] as string).toLowerCase() === p.module.toLowerCase(),
+      ownerActive: isOwner.ok && Boolean(isOwner.value[0]),
+    });
+  });
+  return seats;
+}
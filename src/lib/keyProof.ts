@@ -0,0 +1,204 @@
+// src/lib/keyProof.ts
+import { ethers } from "ethers";
+import { CHAINS } from "../config/chains";
+import { fromBase64Url, toBase64Url } from "./base64url";
+
+/**
+ * Challenge the heir signs in their own session to prove they control the
+ * beneficiary address on this chain, before the owner designates it on-chain.
+ */
+export type KeyChallenge = {
+  v: 1;
+  chainId: number;
+  safe: string;
+  owner: string;
+  beneficiary: string;
+  nonce: string;
+  issuedAt: number; // unix seconds
+};
+
+export type ProofResult =
+  | { ok: true; method: "eip191" | "eip1271" }
+  | { ok: false; error: string };
+
+export const PROOF_HASH_PREFIX = "#heir-proof=";
+
+/** A challenge older than this is refused; the owner sends the heir a new one. */
+export const PROOF_MAX_AGE_SEC = 7 * 86400;
+const CLOCK_SKEW_SEC = 300; // tolerated drift for challenges issued on another machine
+
+const LS_CHALLENGES = "heirsafe:proofChallenges";
+
+const EIP1271_MAGIC = "0x1626ba7e";
+const eip1271Abi = ["function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)"];
+
+export function createChallenge(chainId: number, safe: string, owner: string, beneficiary: string): KeyChallenge {
+  return {
+    v: 1,
+    chainId,
+    safe: ethers.getAddress(safe),
+    owner: ethers.getAddress(owner),
+    beneficiary: ethers.getAddress(beneficiary),
+    nonce: ethers.hexlify(ethers.randomBytes(16)),
+    issuedAt: Math.floor(Date.now() / 1000),
+  };
+}
+
+/** "expired" / "future" when `issuedAt` is outside the accepted window, else null. */
+export function challengeAgeIssue(c: KeyChallenge, nowSec = Math.floor(Date.now() / 1000)) {
+  if (c.issuedAt > nowSec + CLOCK_SKEW_SEC) return "future" as const;
+  if (nowSec - c.issuedAt > PROOF_MAX_AGE_SEC) return "expired" as const;
+  return null;
+}
+
+// --- issued challenges, kept per (chain, Safe, owner, beneficiary) so a reload doesn't void a sent link ---
+
+const storeKey = (chainId: number, safe: string, owner: string, beneficiary: string) =>
+  [chainId, safe, owner, beneficiary].map((x) => String(x).toLowerCase()).join(":");
+
+function loadIssued(): Record<string, KeyChallenge> {
+  try {
+    const v: unknown = JSON.parse(localStorage.getItem(LS_CHALLENGES) || "{}");
+    return v && typeof v === "object" && !Array.isArray(v) ? (v as Record<string, KeyChallenge>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveIssued(c: KeyChallenge) {
+  const now = Math.floor(Date.now() / 1000);
+  const all = loadIssued();
+  // drop long-expired entries while we're here
+  for (const [k, x] of Object.entries(all)) if (now - x.issuedAt > 2 * PROOF_MAX_AGE_SEC) delete all[k];
+  all[storeKey(c.chainId, c.safe, c.owner, c.beneficiary)] = c;
+  try {
+    localStorage.setItem(LS_CHALLENGES, JSON.stringify(all));
+  } catch {
+    /* storage full or disabled: the challenge lives for this session only */
+  }
+}
+
+/** The challenge already issued for this designation, or a new one (persisted). */
+export function getIssuedChallenge(chainId: number, safe: string, owner: string, beneficiary: string): KeyChallenge {
+  const hit = loadIssued()[storeKey(chainId, safe, owner, beneficiary)];
+  if (hit && hit.chainId === chainId && typeof hit.nonce === "string" && Number.isInteger(hit.issuedAt)) return hit;
+  return renewChallenge(chainId, safe, owner, beneficiary);
+}
+
+/** Replace the issued challenge (explicit "new challenge"); the old link stops verifying. */
+export function renewChallenge(chainId: number, safe: string, owner: string, beneficiary: string): KeyChallenge {
+  const c = createChallenge(chainId, safe, owner, beneficiary);
+  saveIssued(c);
+  return c;
+}
+
+/** The exact text the heir signs (EIP-191 personal_sign). */
+export function challengeMessage(c: KeyChallenge) {
+  const chain = CHAINS[c.chainId]?.name ?? `chain ${c.chainId}`;
+  return [
+    "HeirSafe beneficiary key-control proof",
+    "",
+    `I control ${c.beneficiary} and agree to be designated as heir`,
+    `of owner ${c.owner}`,
+    `in Safe ${c.safe}`,
+    `on ${chain} (chainId ${c.chainId}).`,
+    "",
+    `Nonce: ${c.nonce}`,
+    `Issued: ${new Date(c.issuedAt * 1000).toISOString()}`,
+  ].join("\n");
+}
+
+export function challengeToLink(c: KeyChallenge) {
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}${PROOF_HASH_PREFIX}${toBase64Url(JSON.stringify(c))}`;
+}
+
+/** Accepts a full link or just the `#heir-proof=` fragment. */
+export function parseChallenge(input: string): KeyChallenge {
+  const text = input.trim();
+  const i = text.indexOf(PROOF_HASH_PREFIX);
+  let raw: Partial<Record<keyof KeyChallenge, unknown>> | null;
+  try {
+    raw = JSON.parse(fromBase64Url(i >= 0 ? text.slice(i + PROOF_HASH_PREFIX.length) : text));
+  } catch {
+    throw new Error("Not a HeirSafe proof link");
+  }
+  if (
+    raw?.v !== 1 ||
+    !Number.isInteger(raw.chainId) ||
+    ![raw.safe, raw.owner, raw.beneficiary].every((a) => ethers.isAddress(a)) ||
+    typeof raw.nonce !== "string" ||
+    !ethers.isHexString(raw.nonce, 16) ||
+    typeof raw.issuedAt !== "number" ||
+    !Number.isInteger(raw.issuedAt)
+  ) {
+    throw new Error("Unsupported proof challenge");
+  }
+  return {
+    v: 1,
+    chainId: raw.chainId as number,
+    safe: ethers.getAddress(raw.safe as string),
+    owner: ethers.getAddress(raw.owner as string),
+    beneficiary: ethers.getAddress(raw.beneficiary as string),
+    nonce: raw.nonce,
+    issuedAt: raw.issuedAt,
+  };
+}
+
+export function readChallengeFromLocation(): KeyChallenge | null {
+  const h = window.location.hash;
+  if (!h.startsWith(PROOF_HASH_PREFIX)) return null;
+  try {
+    return parseChallenge(h);
+  } catch (e) {
+    console.warn("[keyProof] ignoring invalid #heir-proof link:", e);
+    return null;
+  }
+}
+
+/**
+ * EOAs (incl. EIP-7702 delegated ones) must recover to the beneficiary;
+ * contract wallets must answer EIP-1271 isValidSignature on the message hash.
+ * Challenges older than PROOF_MAX_AGE_SEC or dated in the future are refused.
+ */
+export async function verifyProof(
+  provider: ethers.Provider,
+  c: KeyChallenge,
+  signature: string,
+  nowSec = Math.floor(Date.now() / 1000)
+): Promise<ProofResult> {
+  const age = challengeAgeIssue(c, nowSec);
+  if (age === "future") return { ok: false, error: "Challenge is dated in the future" };
+  if (age === "expired") {
+    return { ok: false, error: `Challenge is older than ${PROOF_MAX_AGE_SEC / 86400} days — send the heir a new one` };
+  }
+
+  const sig = signature.trim();
+  if (!ethers.isHexString(sig) || sig.length < 4) return { ok: false, error: "Signature must be 0x… hex" };
+  const msg = challengeMessage(c);
+
+  const code = await provider.getCode(c.beneficiary);
+  const isContract = !!code && code !== "0x" && !code.toLowerCase().startsWith("0xef0100");
+
+  if (!isContract) {
+    try {
+      const who = ethers.verifyMessage(msg, sig);
+      return who.toLowerCase() === c.beneficiary.toLowerCase()
+        ? { ok: true, method: "eip191" }
+        : { ok: false, error: `Signed by ${who}, not the beneficiary` };
+    } catch {
+      return { ok: false, error: "Malformed signature" };
+    }
+  }
+
+  try {
+    const wallet = new ethers.Contract(c.beneficiary, eip1271Abi, provider);
+    const magic: string = await wallet.isValidSignature(ethers.hashMessage(msg), sig);
+    return magic.toLowerCase() === EIP1271_MAGIC
+      ? { ok: true, method: "eip1271" }
+      : { ok: false, error: "Contract wallet rejected the signature (EIP-1271)" };
+  } catch (e) {
+    const reason = (e as { reason?: string } | null)?.reason;
+    return { ok: false, error: reason || "Contract wallet rejected the signature (EIP-1271)" };
+  }
+}
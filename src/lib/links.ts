@@ -0,0 +1,31 @@
+// src/lib/links.ts
+import { ethers } from "ethers";
+import { getExplorerUrl } from "../config/chains";
+
+/** Link that reopens the app on a given Safe (read by App on startup). */
+export function safeDeepLink(safe: string) {
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}?safe=${ethers.getAddress(safe)}`;
+}
+
+/** `?safe=0x…` from the current URL, if valid. */
+export function readSafeFromUrl(): string | null {
+  try {
+    const v = new URLSearchParams(window.location.search).get("safe");
+    return v && ethers.isAddress(v) ? ethers.getAddress(v) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Block-explorer page for a transaction (null when the chain has no explorer configured). */
+export function explorerTxUrl(chainId: number, hash: string) {
+  const base = getExplorerUrl(chainId);
+  return base ? `${base}/tx/${hash}` : null;
+}
+
+/** Block-explorer page for an address (null when the chain has no explorer configured). */
+export function explorerAddressUrl(chainId: number, addr: string) {
+  const base = getExplorerUrl(chainId);
+  return base ? `${base}/address/${addr}` : null;
+}
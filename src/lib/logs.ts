@@ -0,0 +1,58 @@
+// src/lib/logs.ts
+import { ethers } from "ethers";
+
+/** Default eth_getLogs span; public RPCs commonly cap at 10k (some at 1–5k). */
+export const DEFAULT_LOG_CHUNK = 10_000;
+
+type NodeError = { message?: string; error?: { message?: string }; info?: { error?: { message?: string } } };
+
+function isRangeLimitError(err: unknown) {
+  const e = err as NodeError | null;
+  const msg = `${e?.message || ""} ${e?.error?.message || ""} ${e?.info?.error?.message || ""}`;
+  return /range|limit|too many|exceed|more than|timeout|response size/i.test(msg);
+}
+
+export type LogPage = {
+  logs: ethers.Log[];
+  /** Highest block still unscanned (null when `stopBlock` was reached). */
+  nextToBlock: number | null;
+  /** Chunk size that last worked; pass it back in to avoid re-probing. */
+  chunk: number;
+};
+
+/**
+ * Walk eth_getLogs backwards from `toBlock` down to `stopBlock` in chunks,
+ * halving the span whenever the RPC rejects a range. Stops after
+ * `maxRequests` successful calls so callers can page ("Load older").
+ */
+export async function scanLogsBackward(
+  provider: ethers.Provider,
+  filter: { address?: string | string[]; topics?: (string | string[] | null)[] },
+  toBlock: number,
+  stopBlock = 0,
+  opts: { chunk?: number; maxRequests?: number } = {}
+): Promise<LogPage> {
+  let chunk = opts.chunk ?? DEFAULT_LOG_CHUNK;
+  const maxRequests = opts.maxRequests ?? 20;
+  const logs: ethers.Log[] = [];
+  let hi = toBlock;
+  let done = 0;
+
+  while (hi >= stopBlock && done < maxRequests) {
+    const lo = Math.max(stopBlock, hi - chunk + 1);
+    try {
+      const part = await provider.getLogs({ ...filter, fromBlock: lo, toBlock: hi });
+      logs.push(...part);
+      done++;
+      hi = lo - 1;
+    } catch (e) {
+      if (chunk > 1 && isRangeLimitError(e)) {
+        chunk = Math.max(1, Math.floor(chunk / 2));
+        continue;
+      }
+      throw e;
+    }
+  }
+
+  return { logs, nextToBlock: hi >= stopBlock ? hi : null, chunk };
+}
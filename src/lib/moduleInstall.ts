@@ -2,6 +2,7 @@ import { ethers } from "ethers";
 import { HeirSafeModuleFactoryABI } from "../abi/HeirSafeModuleFactory";
 import { SafeABI } from "../abi/Safe";
 import { SENTINEL } from "../abi/Safe";
+import { getRuntimeConfig } from "../config/runtime";
 
 export async function predictModuleForSafe(
   provider: ethers.Provider,
@@ -30,6 +31,23 @@ export async function isModuleEnabled(provider: ethers.Provider, safe: string, m
   }
 }
 
+/** Predecessor of `module` in the Safe's module list (needed by disableModule). */
+export async function computePrevModule(provider: ethers.Provider, safe: string, module: string) {
+  const c = new ethers.Contract(safe, SafeABI, provider);
+  let prev = SENTINEL;
+  let cursor = SENTINEL;
+  const PAGE = 50n;
+  while (true) {
+    const [mods, next] = await c.getModulesPaginated(cursor, PAGE);
+    for (const m of mods as string[]) {
+      if (m.toLowerCase() === module.toLowerCase()) return prev;
+      prev = m;
+    }
+    if (next === SENTINEL || mods.length === 0) throw new Error("Module is not enabled on this Safe");
+    cursor = next;
+  }
+}
+
 export function encodeEnableModule(module: string) {
   const iface = new ethers.Interface(SafeABI);
   return iface.encodeFunctionData("enableModule", [module]);
@@ -39,3 +57,12 @@ export function encodeFactoryDeploy(factory: string, safe: string, saltHex: stri
   const iface = new ethers.Interface(HeirSafeModuleFactoryABI);
   return iface.encodeFunctionData("deploy", [safe, saltHex]);
 }
+
+/** Install salt from the runtime config / VITE_INSTALL_SALT (zero salt by default); throws if malformed. */
+export function getInstallSalt() {
+  const saltHex = getRuntimeConfig().installSalt;
+  if (!/^0x[0-9a-fA-F]{64}$/.test(saltHex)) {
+    throw new Error("Install salt (installSalt / VITE_INSTALL_SALT) must be 0x + 64 hex chars");
+  }
+  return saltHex;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { ethers } from "ethers";
+import { decodeMultiSend, encodeMultiSend } from "./multiSend";
+
+const A = ethers.getAddress("0x1c511d88ba898b4d9cd9113d13b9c360a02fcea1");
+const B = ethers.getAddress("0x5afe3855358e112b5647b952709e6165e1c1eeee");
+
+describe("encodeMultiSend / decodeMultiSend", () => {
+  it("round-trips calls with and without value and data", () => {
+    const calls = [
+      { to: A, data: "0x610b5925000000000000000000000000" + B.slice(2).toLowerCase() },
+      { to: B, value: 10n ** 18n, data: "0x" },
+      { to: A, value: "5", data: "0xdeadbeef" },
+    ];
+    expect(decodeMultiSend(encodeMultiSend(calls))).toEqual([
+      { operation: 0, to: A, value: 0n, data: calls[0].data },
+      { operation: 0, to: B, value: 10n ** 18n, data: "0x" },
+      { operation: 0, to: A, value: 5n, data: "0xdeadbeef" },
+    ]);
+  });
+
+  it("packs each call as operation · to · value · length · data", () => {
+    const data = encodeMultiSend([{ to: A, data: "0xdeadbeef" }]);
+    const iface = new ethers.Interface(["function multiSend(bytes transactions)"]);
+    const [packed] = iface.decodeFunctionData("multiSend", data);
+    expect(packed).toBe(
+      ethers.solidityPacked(["uint8", "address", "uint256", "uint256", "bytes"], [0, A, 0, 4, "0xdeadbeef"])
+    );
+  });
+
+  it("round-trips an empty batch", () => {
+    expect(decodeMultiSend(encodeMultiSend([]))).toEqual([]);
+  });
+
+  it("rejects other calldata", () => {
+    expect(decodeMultiSend("0x")).toBeNull();
+    expect(decodeMultiSend("0x610b5925" + "00".repeat(32))).toBeNull();
+  });
+
+  it("rejects truncated entries", () => {
+    const iface = new ethers.Interface(["function multiSend(bytes transactions)"]);
+    const whole = iface.decodeFunctionData("multiSend", encodeMultiSend([{ to: A, data: "0xdeadbeef" }]))[0];
+    const cut = ethers.dataSlice(whole, 0, ethers.dataLength(whole) - 2);
+    expect(decodeMultiSend(iface.encodeFunctionData("multiSend", [cut]))).toBeNull();
+  });
+});
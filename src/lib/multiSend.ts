@@ -0,0 +1,49 @@
+// src/lib/multiSend.ts
+import { ethers } from "ethers";
+
+export type MultiSendCall = { to: string; value?: bigint | string; data: string };
+
+const iface = new ethers.Interface(["function multiSend(bytes transactions) payable"]);
+
+/**
+ * multiSend(bytes) calldata for MultiSendCallOnly: each call packed as
+ * uint8 operation (always CALL) · address to · uint256 value · uint256 len · bytes data.
+ * The Safe must DELEGATECALL the contract so the inner calls come from the Safe.
+ */
+export function encodeMultiSend(calls: MultiSendCall[]) {
+  const packed = ethers.concat(
+    calls.map((c) =>
+      ethers.solidityPacked(
+        ["uint8", "address", "uint256", "uint256", "bytes"],
+        [0, c.to, BigInt(c.value ?? 0), ethers.dataLength(c.data), c.data]
+      )
+    )
+  );
+  return iface.encodeFunctionData("multiSend", [packed]);
+}
+
+/** Inverse of encodeMultiSend (null when `data` is not a multiSend call). */
+export function decodeMultiSend(data: string): (MultiSendCall & { operation: number })[] | null {
+  let packed: string;
+  try {
+    const parsed = iface.parseTransaction({ data });
+    if (!parsed) return null;
+    packed = parsed.args[0];
+  } catch {
+    return null;
+  }
+  const bytes = ethers.getBytes(packed);
+  const out: (MultiSendCall & { operation: number })[] = [];
+  let i = 0;
+  while (i < bytes.length) {
+    if (i + 85 > bytes.length) return null;
+    const operation = bytes[i];
+    const to = ethers.getAddress(ethers.hexlify(bytes.slice(i + 1, i + 21)));
+    const value = ethers.toBigInt(bytes.slice(i + 21, i + 53));
+    const len = Number(ethers.toBigInt(bytes.slice(i + 53, i + 85)));
+    if (i + 85 + len > bytes.length) return null;
+    out.push({ operation, to, value, data: ethers.hexlify(bytes.slice(i + 85, i + 85 + len)) });
+    i += 85 + len;
+  }
+  return out;
+}
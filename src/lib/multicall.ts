@@ -0,0 +1,79 @@
+// src/lib/multicall.ts
+import { ethers } from "ethers";
+import { errorMessage } from "./errors";
+
+/** Multicall3 — same address on nearly every EVM chain (incl. Ethereum, PulseChain, Sepolia). */
+export const MULTICALL3 = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+] as const;
+
+export type Call = {
+  target: string;
+  iface: ethers.Interface;
+  fn: string;
+  args?: unknown[];
+};
+
+export type CallResult =
+  | { ok: true; value: ethers.Result }
+  | { ok: false; error: string };
+
+// Multicall3 presence per provider (probed once)
+const available = new WeakMap<ethers.Provider, Promise<boolean>>();
+
+function hasMulticall(provider: ethers.Provider) {
+  let p = available.get(provider);
+  if (!p) {
+    p = provider
+      .getCode(MULTICALL3)
+      .then((code) => !!code && code !== "0x")
+      .catch(() => false);
+    available.set(provider, p);
+  }
+  return p;
+}
+
+function decode(call: Call, success: boolean, data: string): CallResult {
+  if (!success) return { ok: false, error: "reverted" };
+  if (!data || data === "0x") return { ok: false, error: "no data (not a contract?)" };
+  try {
+    return { ok: true, value: call.iface.decodeFunctionResult(call.fn, data) };
+  } catch (e) {
+    return { ok: false, error: errorMessage(e, "decode failed") };
+  }
+}
+
+/**
+ * Run read-only calls in one eth_call through Multicall3 (failures are
+ * per-call, never thrown). Falls back to parallel eth_calls where the
+ * chain has no Multicall3 or the aggregate call itself fails.
+ */
+export async function multicall(provider: ethers.Provider, calls: Call[]): Promise<CallResult[]> {
+  if (calls.length === 0) return [];
+  const encoded = calls.map((c) => c.iface.encodeFunctionData(c.fn, c.args ?? []));
+
+  if (await hasMulticall(provider)) {
+    try {
+      const mc = new ethers.Contract(MULTICALL3, MULTICALL3_ABI, provider);
+      const res: { success: boolean; returnData: string }[] = await mc.aggregate3.staticCall(
+        calls.map((c, i) => ({ target: c.target, allowFailure: true, callData: encoded[i] }))
+      );
+      return res.map((r, i) => decode(calls[i], r.success, r.returnData));
+    } catch (e) {
+      console.debug("[multicall] aggregate3 failed, falling back to parallel calls:", e);
+    }
+  }
+
+  return Promise.all(
+    calls.map(async (c, i) => {
+      try {
+        const data = await provider.call({ to: c.target, data: encoded[i] });
+        return decode(c, true, data);
+      } catch (e) {
+        return { ok: false as const, error: errorMessage(e, "call failed") };
+      }
+    })
+  );
+}
@@ -0,0 +1,133 @@
+// src/lib/notifications.ts
+import { useSyncExternalStore } from "react";
+
+export type Severity = "info" | "success" | "warn" | "error";
+
+export type Notice = {
+  id: string;
+  severity: Severity;
+  message: string;
+  createdAt: number; // ms
+  /** Correlation: the same key updates one entry instead of appending (e.g. a tx's lifecycle). */
+  key?: string;
+  txHash?: string;
+  chainId?: number;
+  safe?: string;
+  owner?: string;
+  source?: string; // publishing component, for the history drawer
+  read: boolean;
+};
+
+export type NotifyOptions = Partial<Pick<Notice, "key" | "txHash" | "chainId" | "safe" | "owner" | "source">> & {
+  /** History only, no toast (status lines, routine progress). */
+  silent?: boolean;
+  /** Toast lifetime in ms (errors stay until dismissed when 0). */
+  ttl?: number;
+};
+
+const LS_KEY = "heirsafe:notifications";
+const MAX_HISTORY = 200;
+const DEFAULT_TTL: Record<Severity, number> = { info: 4000, success: 5000, warn: 8000, error: 0 };
+
+function load(): Notice[] {
+  try {
+    const v = JSON.parse(localStorage.getItem(LS_KEY) || "[]");
+    return Array.isArray(v) ? v.filter((n) => n && typeof n.id === "string" && typeof n.message === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+// --- store ---
+
+type Snapshot = { history: Notice[]; toasts: Notice[] };
+
+let history: Notice[] = load();
+let toastIds: string[] = [];
+let snapshot: Snapshot = { history, toasts: [] };
+const listeners = new Set<() => void>();
+const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+function emit(persist: boolean) {
+  const byId = new Map(history.map((n) => [n.id, n]));
+  snapshot = { history, toasts: toastIds.map((id) => byId.get(id)).filter((n): n is Notice => !!n) };
+  if (persist) {
+    try {
+      localStorage.setItem(LS_KEY, JSON.stringify(history.slice(0, MAX_HISTORY)));
+    } catch {
+      /* storage full/blocked */
+    }
+  }
+  listeners.forEach((l) => l());
+}
+
+function subscribe(l: () => void) {
+  listeners.add(l);
+  return () => listeners.delete(l);
+}
+
+/** Publish a message; returns its id. Reusing `key` replaces that entry and re-shows its toast. */
+export function notify(message: string, severity: Severity = "info", opts: NotifyOptions = {}) {
+  const { silent, ttl, ...meta } = opts;
+  const prev = meta.key ? history.find((n) => n.key === meta.key) : undefined;
+  const n: Notice = {
+    ...prev,
+    ...meta,
+    id: prev?.id ?? `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    severity,
+    message,
+    createdAt: Date.now(),
+    read: false,
+  };
+  history = [n, ...history.filter((x) => x.id !== n.id)].slice(0, MAX_HISTORY);
+
+  clearTimeout(timers.get(n.id));
+  if (silent) {
+    toastIds = toastIds.filter((id) => id !== n.id);
+  } else {
+    toastIds = [...toastIds.filter((id) => id !== n.id), n.id].slice(-5);
+    const life = ttl ?? DEFAULT_TTL[severity];
+    if (life > 0) timers.set(n.id, setTimeout(() => dismiss(n.id), life));
+  }
+  emit(true);
+  return n.id;
+}
+
+/** `notify` bound to a publishing component's source and context; per-call options override them. */
+export function notifier(source: string, context: NotifyOptions = {}) {
+  return (message: string, severity: Severity = "info", opts: NotifyOptions = {}) =>
+    notify(message, severity, { source, ...context, ...opts });
+}
+
+/** Hide the toast (the entry stays in history). */
+export function dismiss(id: string) {
+  clearTimeout(timers.get(id));
+  timers.delete(id);
+  if (!toastIds.includes(id)) return;
+  toastIds = toastIds.filter((x) => x !== id);
+  emit(false);
+}
+
+/** Delete from history (and hide its toast). */
+export function removeNotice(id: string) {
+  dismiss(id);
+  history = history.filter((n) => n.id !== id);
+  emit(true);
+}
+
+export function clearNotices() {
+  toastIds.forEach((id) => clearTimeout(timers.get(id)));
+  toastIds = [];
+  history = [];
+  emit(true);
+}
+
+export function markAllRead() {
+  if (!history.some((n) => !n.read)) return;
+  history = history.map((n) => (n.read ? n : { ...n, read: true }));
+  emit(true);
+}
+
+export function useNotifications() {
+  return useSyncExternalStore(subscribe, () => snapshot);
+}
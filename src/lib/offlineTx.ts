@@ -0,0 +1,184 @@
+// src/lib/offlineTx.ts
+import { ethers } from "ethers";
+import { HeirSafeModuleABI } from "../abi/HeirSafeModule";
+
+/** Module call the payload is meant to perform (checked again before broadcast). */
+export type OfflineIntent =
+  | { action: "setBeneficiary"; beneficiary: string; activationTime: string }
+  | { action: "setActivationTime"; activationTime: string }
+  | { action: "removeBeneficiary" }
+  | { action: "claimSafe"; owner: string; prevOwner: string };
+
+/**
+ * Unsigned module transaction for a key kept on an offline machine. Numbers
+ * are decimal strings so the JSON survives any tool; `unsigned` is the
+ * serialized envelope most offline signers accept directly.
+ */
+export type UnsignedTxPayload = {
+  v: 1;
+  kind: "heirsafe-unsigned-tx";
+  chainId: number;
+  safe: string;
+  from: string;
+  intent: OfflineIntent;
+  tx: {
+    type: 0 | 2;
+    chainId: string;
+    to: string;
+    data: string;
+    value: string;
+    nonce: number;
+    gasLimit: string;
+    gasPrice?: string;
+    maxFeePerGas?: string;
+    maxPriorityFeePerGas?: string;
+  };
+  unsigned: string;
+  createdAt: number; // unix seconds
+};
+
+const moduleIface = new ethers.Interface(HeirSafeModuleABI);
+
+export function encodeIntent(intent: OfflineIntent) {
+  switch (intent.action) {
+    case "setBeneficiary":
+      return moduleIface.encodeFunctionData("setBeneficiary", [intent.beneficiary, intent.activationTime]);
+    case "setActivationTime":
+      return moduleIface.encodeFunctionData("setActivationTime", [intent.activationTime]);
+    case "removeBeneficiary":
+      return moduleIface.encodeFunctionData("removeBeneficiary", []);
+    case "claimSafe":
+      return moduleIface.encodeFunctionData("claimSafe", [intent.owner, intent.prevOwner]);
+  }
+}
+
+/** One-line summary of an intent, for the UI and notifications. */
+export function describeIntent(intent: OfflineIntent) {
+  switch (intent.action) {
+    case "setBeneficiary":
+      return `setBeneficiary(${intent.beneficiary}, ${intent.activationTime})`;
+    case "setActivationTime":
+      return `setActivationTime(${intent.activationTime})`;
+    case "removeBeneficiary":
+      return "removeBeneficiary()";
+    case "claimSafe":
+      return `claimSafe(${intent.owner}, ${intent.prevOwner})`;
+  }
+}
+
+/**
+ * Build the exact transaction `from` will sign: nonce (pending), gas limit
+ * (estimate + 20%) and fees come from the read provider. The estimate doubles
+ * as a preflight — a call that would revert throws here.
+ */
+export async function buildUnsignedTx(
+  provider: ethers.Provider,
+  chainId: number,
+  safe: string,
+  module: string,
+  from: string,
+  intent: OfflineIntent
+): Promise<UnsignedTxPayload> {
+  const to = ethers.getAddress(module);
+  const data = encodeIntent(intent);
+  const [nonce, gas, fees] = await Promise.all([
+    provider.getTransactionCount(from, "pending"),
+    provider.estimateGas({ from, to, data }),
+    provider.getFeeData(),
+  ]);
+  const gasLimit = (gas * 120n) / 100n;
+
+  const tx: UnsignedTxPayload["tx"] =
+    fees.maxFeePerGas != null && fees.maxPriorityFeePerGas != null
+      ? {
+          type: 2,
+          chainId: String(chainId),
+          to,
+          data,
+          value: "0",
+          nonce,
+          gasLimit: gasLimit.toString(),
+          maxFeePerGas: fees.maxFeePerGas.toString(),
+          maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+        }
+      : {
+          type: 0,
+          chainId: String(chainId),
+          to,
+          data,
+          value: "0",
+          nonce,
+          gasLimit: gasLimit.toString(),
+          gasPrice: (fees.gasPrice ?? 0n).toString(),
+        };
+
+  return {
+    v: 1,
+    kind: "heirsafe-unsigned-tx",
+    chainId,
+    safe: ethers.getAddress(safe),
+    from: ethers.getAddress(from),
+    intent,
+    tx,
+    unsigned: ethers.Transaction.from(tx).unsignedSerialized,
+    createdAt: Math.floor(Date.now() / 1000),
+  };
+}
+
+/** Accept a bare 0x… raw tx or a JSON object carrying one (`raw`, `rawTransaction`, `signedTransaction`). */
+export function extractRawTx(input: string) {
+  const s = input.trim();
+  if (/^0x[0-9a-fA-F]+$/.test(s)) return s;
+  try {
+    const o = JSON.parse(s);
+    const v = o?.raw ?? o?.rawTransaction ?? o?.signedTransaction ?? o?.signed;
+    if (typeof v === "string" && /^0x[0-9a-fA-F]+$/.test(v.trim())) return v.trim();
+  } catch {
+    /* not JSON */
+  }
+  throw new Error("Paste the signed raw transaction (0x…)");
+}
+
+/**
+ * Decode a signed raw tx and make sure it is the payload we built: same
+ * signer, chain, nonce, target and value, and calldata that decodes to the
+ * intended module call. Fees may differ (offline signers often adjust them).
+ */
+export function verifySignedTx(p: UnsignedTxPayload, raw: string) {
+  let tx: ethers.Transaction;
+  try {
+    tx = ethers.Transaction.from(raw);
+  } catch {
+    throw new Error("Not a valid signed transaction");
+  }
+  if (!tx.isSigned() || !tx.from) throw new Error("Transaction is not signed");
+
+  const same = (a?: string | null, b?: string | null) => (a ?? "").toLowerCase() === (b ?? "").toLowerCase();
+  if (!same(tx.from, p.from)) throw new Error(`Signed by ${tx.from}, expected ${p.from}`);
+  if (tx.chainId !== BigInt(p.chainId)) throw new Error(`Signed for chain ${tx.chainId}, expected ${p.chainId}`);
+  if (!same(tx.to, p.tx.to)) throw new Error(`Sends to ${tx.to}, expected the module ${p.tx.to}`);
+  if (tx.value !== 0n) throw new Error("Transaction carries value; expected 0");
+  if (tx.nonce !== p.tx.nonce) throw new Error(`Nonce ${tx.nonce} differs from the prepared ${p.tx.nonce}`);
+
+  const decoded = moduleIface.parseTransaction({ data: tx.data });
+  if (!decoded) throw new Error("Calldata is not a HeirSafe module call");
+  if (decoded.name !== p.intent.action) {
+    throw new Error(`Calldata calls ${decoded.name}, expected ${p.intent.action}`);
+  }
+  if (!same(tx.data, encodeIntent(p.intent))) {
+    throw new Error(`Calldata arguments differ from ${describeIntent(p.intent)}`);
+  }
+
+  const warnings: string[] = [];
+  if (tx.gasLimit < BigInt(p.tx.gasLimit)) warnings.push("Gas limit is lower than prepared; it may run out of gas.");
+  const fee = tx.maxFeePerGas ?? tx.gasPrice ?? 0n;
+  const planned = BigInt(p.tx.maxFeePerGas ?? p.tx.gasPrice ?? "0");
+  if (fee !== planned) warnings.push(`Fee was changed by the signer (${ethers.formatUnits(fee, "gwei")} gwei).`);
+
+  return { tx, decoded, warnings };
+}
+
+/** eth_sendRawTransaction through the read provider. */
+export function broadcastSignedTx(provider: ethers.Provider, raw: string) {
+  return provider.broadcastTransaction(raw);
+}
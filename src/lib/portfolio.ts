@@ -0,0 +1,91 @@
+// src/lib/portfolio.ts
+import { ethers } from "ethers";
+import { getFactoryAddress } from "../config/chains";
+import { getPublicProvider } from "./rpc";
+import { getInstallSalt } from "./moduleInstall";
+import { readHeirRows, readInstallState } from "./batchReads";
+import { errorMessage } from "./errors";
+
+/** One watched Safe on one chain. */
+export type WatchEntry = { chainId: number; safe: string; label: string };
+
+export type SafeSummary =
+  | {
+      status: "ok";
+      deployed: boolean;
+      enabled: boolean;
+      owners: number;
+      heirs: number;
+      nearest: bigint | null; // earliest future activation, else the latest one already reached
+    }
+  | { status: "error"; message: string };
+
+const LS_WATCHLIST = "heirsafe:watchlist";
+
+export function loadWatchlist(): WatchEntry[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(LS_WATCHLIST) || "[]");
+    return Array.isArray(raw)
+      ? raw.filter(
+          (e) => Number.isInteger(e?.chainId) && ethers.isAddress(e?.safe) && typeof e?.label === "string"
+        )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveWatchlist(list: WatchEntry[]) {
+  try {
+    localStorage.setItem(LS_WATCHLIST, JSON.stringify(list));
+  } catch {
+    /* storage blocked */
+  }
+}
+
+export const sameEntry = (a: Pick<WatchEntry, "chainId" | "safe">, b: Pick<WatchEntry, "chainId" | "safe">) =>
+  a.chainId === b.chainId && a.safe.toLowerCase() === b.safe.toLowerCase();
+
+/** Module state + heir coverage for one watched Safe, via that chain's public RPC. */
+export async function readSafeSummary(e: WatchEntry): Promise<SafeSummary> {
+  try {
+    const provider = getPublicProvider(e.chainId);
+    if (!provider) return { status: "error", message: "No RPC configured for this chain" };
+    const factory = getFactoryAddress(e.chainId);
+    if (!factory) return { status: "error", message: "Factory not configured for this network" };
+
+    const st = await readInstallState(provider, e.safe, factory, getInstallSalt());
+    if (!st.validation.ok) return { status: "error", message: "Not a Safe on this network" };
+    if (!st.deployed) {
+      return {
+        status: "ok",
+        deployed: false,
+        enabled: false,
+        owners: st.validation.owners.length,
+        heirs: 0,
+        nearest: null,
+      };
+    }
+
+    const { rows } = await readHeirRows(provider, e.safe, st.predicted);
+    const withHeir = rows.filter((r) => r.beneficiary !== ethers.ZeroAddress && r.ts !== 0n);
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    const future = withHeir.filter((r) => r.ts > now).map((r) => r.ts);
+    const past = withHeir.filter((r) => r.ts <= now).map((r) => r.ts);
+    const nearest = future.length
+      ? future.reduce((a, b) => (b < a ? b : a))
+      : past.length
+        ? past.reduce((a, b) => (b > a ? b : a))
+        : null;
+    return {
+      status: "ok",
+      deployed: true,
+      enabled: st.enabled,
+      owners: rows.length,
+      heirs: withHeir.length,
+      nearest,
+    };
+  } catch (e) {
+    return { status: "error", message: errorMessage(e, "Read failed") };
+  }
+}
@@ -0,0 +1,24 @@
+// src/lib/rpc.ts
+import { DEFAULT_CHAIN_ID, getRpcUrls } from "../config/chains";
+import { getRuntimeConfig } from "../config/runtime";
+import { FailoverRpcProvider } from "./rpcPool";
+
+const cache = new Map<number, FailoverRpcProvider>();
+
+/** Configured RPC URLs of a chain; the runtime `fallbackRpc` leads the default chain's list. */
+function poolUrls(chainId: number) {
+  const urls = getRpcUrls(chainId);
+  const extra = getRuntimeConfig().fallbackRpc;
+  return chainId === DEFAULT_CHAIN_ID && extra ? [extra, ...urls] : urls;
+}
+
+/** Read-only provider for any configured chain (independent of the wallet's network), failing over across its RPCs. */
+export function getPublicProvider(chainId: number): FailoverRpcProvider | null {
+  const hit = cache.get(chainId);
+  if (hit) return hit;
+  const urls = poolUrls(chainId);
+  if (!urls.length) return null;
+  const p = new FailoverRpcProvider(chainId, urls);
+  cache.set(chainId, p);
+  return p;
+}
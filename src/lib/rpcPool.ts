@@ -0,0 +1,204 @@
+// src/lib/rpcPool.ts
+import { useSyncExternalStore } from "react";
+import { ethers } from "ethers";
+
+/** Live stats of one RPC endpoint in a chain's pool. */
+export type EndpointHealth = {
+  url: string;
+  requests: number;
+  errors: number;
+  latencyMs: number | null; // moving average of successful calls
+  cooldownUntil: number; // ms; skipped until then (rate limit / failure backoff)
+  strikes: number; // consecutive failures, drives the backoff
+  chainIdOk: boolean | null; // eth_chainId cross-check (null = not checked yet)
+  lastError?: string;
+};
+
+export type PoolHealth = { chainId: number; active: string | null; endpoints: EndpointHealth[] };
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const BACKOFF_BASE_MS = 1_000;
+const BACKOFF_MAX_MS = 60_000;
+const MAX_WAIT_MS = 8_000; // longest we sleep for a cooled-down endpoint before giving up
+const LATENCY_ALPHA = 0.3;
+
+type RpcEntry = ethers.JsonRpcResult | ethers.JsonRpcError;
+
+// Fields of ethers errors, fetch failures and JSON-RPC error entries that tell a rate limit apart
+type RpcFailure = {
+  code?: unknown;
+  message?: string;
+  shortMessage?: string;
+  error?: { code?: unknown; message?: string };
+  info?: { responseStatus?: string };
+  response?: { statusCode?: number };
+} | null;
+
+const isRpcError = (r: RpcEntry): r is ethers.JsonRpcError => "error" in r && r.error != null;
+
+function isRateLimit(err: unknown) {
+  const e = err as RpcFailure;
+  const code = e?.code ?? e?.error?.code;
+  const status = e?.info?.responseStatus ?? e?.response?.statusCode;
+  const msg = `${e?.message || ""} ${e?.error?.message || ""} ${e?.shortMessage || ""}`;
+  return code === 429 || code === -32005 || /^429/.test(String(status)) || /rate.?limit|too many requests|request limit/i.test(msg);
+}
+
+/** Host part of an endpoint URL, for display (API keys in paths stay hidden). */
+export function endpointHost(url: string) {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+// --- health store (one snapshot per chain, replaced on every change) ---
+
+const pools = new Map<number, PoolHealth>();
+const listeners = new Set<() => void>();
+
+function publish(h: PoolHealth) {
+  pools.set(h.chainId, { ...h, endpoints: h.endpoints.map((e) => ({ ...e })) });
+  listeners.forEach((l) => l());
+}
+
+function subscribe(l: () => void) {
+  listeners.add(l);
+  return () => listeners.delete(l);
+}
+
+/** Endpoint stats for a chain's read pool (null until the pool is created). */
+export function useRpcHealth(chainId: number | null) {
+  return useSyncExternalStore(subscribe, () => (chainId == null ? null : pools.get(chainId) ?? null));
+}
+
+/**
+ * Read provider that spreads one chain's traffic over several RPC URLs.
+ * Sticks to the endpoint that last worked; on network errors, 5xx or rate
+ * limits it backs that endpoint off exponentially and retries the request on
+ * the next one, ranked by error rate and latency. Every endpoint is checked
+ * once with eth_chainId and dropped if it serves a different chain.
+ */
+export class FailoverRpcProvider extends ethers.JsonRpcApiProvider {
+  readonly chainId: number;
+  private inner: ethers.JsonRpcProvider[];
+  private health: PoolHealth;
+
+  constructor(chainId: number, urls: string[]) {
+    const network = ethers.Network.from(chainId);
+    super(network, { staticNetwork: network });
+    this.chainId = chainId;
+    const unique = [...new Set(urls)];
+    this.inner = unique.map((u) => {
+      const req = new ethers.FetchRequest(u);
+      req.timeout = REQUEST_TIMEOUT_MS;
+      req.setThrottleParams({ maxAttempts: 1 }); // 429s fail over here instead of being retried in place
+      return new ethers.JsonRpcProvider(req, network, { staticNetwork: network, batchMaxCount: 1 });
+    });
+    this.health = {
+      chainId,
+      active: unique[0] ?? null,
+      endpoints: unique.map((url) => ({
+        url,
+        requests: 0,
+        errors: 0,
+        latencyMs: null,
+        cooldownUntil: 0,
+        strikes: 0,
+        chainIdOk: null,
+      })),
+    };
+    publish(this.health);
+  }
+
+  // Active endpoint first, then the rest by error rate and latency
+  private order(now: number) {
+    const eps = this.health.endpoints;
+    const score = (e: EndpointHealth) =>
+      (e.requests ? e.errors / e.requests : 0) * 10_000 + (e.latencyMs ?? 500);
+    return eps
+      .map((e, i) => ({ e, i }))
+      .filter(({ e }) => e.chainIdOk !== false)
+      .sort((a, b) => {
+        const ca = a.e.cooldownUntil > now ? 1 : 0;
+        const cb = b.e.cooldownUntil > now ? 1 : 0;
+        if (ca !== cb) return ca - cb;
+        if (ca) return a.e.cooldownUntil - b.e.cooldownUntil;
+        if (a.e.url === this.health.active) return -1;
+        if (b.e.url === this.health.active) return 1;
+        return score(a.e) - score(b.e);
+      });
+  }
+
+  private fail(e: EndpointHealth, err: unknown) {
+    const f = err as RpcFailure;
+    e.errors++;
+    e.strikes++;
+    e.lastError = f?.shortMessage || f?.message || String(err);
+    const backoff = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (e.strikes - 1));
+    e.cooldownUntil = Date.now() + backoff;
+  }
+
+  private async checkChainId(i: number) {
+    const e = this.health.endpoints[i];
+    // JSON-RPC errors come back as entries, not exceptions
+    const [r]: RpcEntry[] = await this.inner[i]._send({ method: "eth_chainId", params: [], id: 0, jsonrpc: "2.0" });
+    if (!r) throw new Error("Empty eth_chainId response");
+    if (isRpcError(r)) throw Object.assign(new Error(r.error.message), { error: r.error });
+    e.chainIdOk = Number(r.result) === this.chainId;
+    if (!e.chainIdOk) e.lastError = `Serves chain ${Number(r.result)}, expected ${this.chainId}`;
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<RpcEntry[]> {
+    let lastErr: unknown = new Error(`No usable RPC endpoint for chain ${this.chainId}`);
+
+    // Two passes over the pool at most; a cooled-down endpoint may be waited for briefly
+    for (let attempt = 0; attempt < this.inner.length * 2; attempt++) {
+      const now = Date.now();
+      const next = this.order(now)[0];
+      if (!next) break;
+      const { e, i } = next;
+      if (e.cooldownUntil > now) {
+        const wait = e.cooldownUntil - now;
+        if (wait > MAX_WAIT_MS) break;
+        await new Promise((r) => setTimeout(r, wait));
+      }
+
+      const started = Date.now();
+      try {
+        if (e.chainIdOk === null) {
+          await this.checkChainId(i);
+          if (!e.chainIdOk) {
+            lastErr = new Error(e.lastError);
+            publish(this.health);
+            continue;
+          }
+        }
+        e.requests++;
+        const res: RpcEntry[] = await this.inner[i]._send(payload);
+        // Rate limits often come back as JSON-RPC errors; execution errors (reverts) are passed through
+        const limited = res.filter(isRpcError).find(isRateLimit);
+        if (limited) throw Object.assign(new Error(limited.error.message), limited);
+
+        const ms = Date.now() - started;
+        e.latencyMs = e.latencyMs == null ? ms : Math.round(e.latencyMs * (1 - LATENCY_ALPHA) + ms * LATENCY_ALPHA);
+        e.strikes = 0;
+        e.cooldownUntil = 0;
+        this.health.active = e.url;
+        publish(this.health);
+        return res;
+      } catch (err) {
+        lastErr = err;
+        this.fail(e, err);
+        publish(this.health);
+      }
+    }
+    throw lastErr;
+  }
+
+  destroy() {
+    this.inner.forEach((p) => p.destroy());
+    super.destroy();
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { ethers } from "ethers";
+import { buildSafeTx, packSignatures, safeTxHash, type SafeTx } from "./safeTx";
+
+// Constants from Safe.sol (v1.3.0+ and the pre-1.3 releases)
+const SAFE_TX_TYPEHASH = "0xbb8310d486368db6bd6f849402fdd73ad53d316b5a4b2644ad6efe0f941286d8";
+const SAFE_TX_TYPEHASH_V100 = "0x14d461bc7412367e924637b363c7bf29b8f47e2f84869f4426e5633d8af47b20"; // dataGas
+const DOMAIN_TYPEHASH = "0x47e79534a245952e8b16893a336b85a3d9ea9fa8c573f3d803afb92a79469218";
+const DOMAIN_TYPEHASH_LEGACY = "0x035aff83d86937d35b32e04f0ddc6ff469290eef2f1b692d8a815c89404d4749";
+
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+/** Safe.getTransactionHash() as the contract computes it (abi.encode, no EIP-712 library). */
+function contractHash(chainId: number | null, safe: string, tx: SafeTx, typeHash = SAFE_TX_TYPEHASH) {
+  const domainSeparator =
+    chainId == null
+      ? ethers.keccak256(coder.encode(["bytes32", "address"], [DOMAIN_TYPEHASH_LEGACY, safe]))
+      : ethers.keccak256(coder.encode(["bytes32", "uint256", "address"], [DOMAIN_TYPEHASH, chainId, safe]));
+  const structHash = ethers.keccak256(
+    coder.encode(
+      ["bytes32", "address", "uint256", "bytes32", "uint8", "uint256", "uint256", "uint256", "address", "address", "uint256"],
+      [
+        typeHash,
+        tx.to,
+        tx.value,
+        ethers.keccak256(tx.data),
+        tx.operation,
+        tx.safeTxGas,
+        tx.baseGas,
+        tx.gasPrice,
+        tx.gasToken,
+        tx.refundReceiver,
+        tx.nonce,
+      ]
+    )
+  );
+  return ethers.keccak256(ethers.concat(["0x1901", domainSeparator, structHash]));
+}
+
+const SAFE = ethers.getAddress("0x1c511d88ba898b4d9cd9113d13b9c360a02fcea1");
+const TO = ethers.getAddress("0x5afe3855358e112b5647b952709e6165e1c1eeee");
+
+const tx: SafeTx = {
+  to: TO,
+  value: "1000000000000000",
+  data: "0xa9059cbb000000000000000000000000000000000000000000000000000000000000dead0000000000000000000000000000000000000000000000000000000000000001",
+  operation: 0,
+  safeTxGas: "50000",
+  baseGas: "21000",
+  gasPrice: "1000000000",
+  gasToken: ethers.ZeroAddress,
+  refundReceiver: "0x000000000000000000000000000000000000bEEF",
+  nonce: 7,
+};
+
+describe("safeTxHash", () => {
+  it("uses the type hashes Safe.sol hard-codes", () => {
+    expect(
+      ethers.id(
+        "SafeTx(address to,uint256 value,bytes data,uint8 operation,uint256 safeTxGas,uint256 baseGas,uint256 gasPrice,address gasToken,address refundReceiver,uint256 nonce)"
+      )
+    ).toBe(SAFE_TX_TYPEHASH);
+    expect(ethers.id("EIP712Domain(uint256 chainId,address verifyingContract)")).toBe(DOMAIN_TYPEHASH);
+    expect(ethers.id("EIP712Domain(address verifyingContract)")).toBe(DOMAIN_TYPEHASH_LEGACY);
+  });
+
+  it("matches getTransactionHash() of a Safe 1.3.0+", () => {
+    expect(safeTxHash(11155111, SAFE, tx, "1.3.0")).toBe(contractHash(11155111, SAFE, tx));
+    expect(safeTxHash(1, SAFE, tx, "1.4.1")).toBe(contractHash(1, SAFE, tx));
+  });
+
+  it("treats an unknown version as a modern Safe", () => {
+    expect(safeTxHash(1, SAFE, tx)).toBe(contractHash(1, SAFE, tx));
+  });
+
+  it("leaves chainId out of the domain before 1.3.0", () => {
+    expect(safeTxHash(1, SAFE, tx, "1.2.0")).toBe(contractHash(null, SAFE, tx));
+    expect(safeTxHash(1, SAFE, tx, "1.1.1")).toBe(safeTxHash(137, SAFE, tx, "1.1.1"));
+  });
+
+  it("signs baseGas as dataGas on Safe 1.0.0", () => {
+    expect(safeTxHash(1, SAFE, tx, "1.0.0")).toBe(contractHash(null, SAFE, tx, SAFE_TX_TYPEHASH_V100));
+  });
+
+  it("binds the hash to the chain, the Safe and the nonce", () => {
+    const h = safeTxHash(1, SAFE, tx, "1.3.0");
+    expect(safeTxHash(10, SAFE, tx, "1.3.0")).not.toBe(h);
+    expect(safeTxHash(1, TO, tx, "1.3.0")).not.toBe(h);
+    expect(safeTxHash(1, SAFE, { ...tx, nonce: 8 }, "1.3.0")).not.toBe(h);
+  });
+
+  it("hashes a DELEGATECALL built by buildSafeTx", () => {
+    const t = buildSafeTx(TO.toLowerCase(), "0x", 0, 1);
+    expect(t.to).toBe(TO);
+    expect(safeTxHash(100, SAFE, t, "1.3.0")).toBe(contractHash(100, SAFE, t));
+  });
+});
+
+describe("packSignatures", () => {
+  it("orders signatures by ascending signer address", () => {
+    const a = { signer: "0x00000000000000000000000000000000000000aA", signature: "0x" + "aa".repeat(65) };
+    const b = { signer: "0x00000000000000000000000000000000000000Bb", signature: "0x" + "bb".repeat(65) };
+    expect(packSignatures([b, a])).toBe("0x" + "aa".repeat(65) + "bb".repeat(65));
+  });
+});
@@ -0,0 +1,154 @@
+// src/lib/safeTx.ts
+import { ethers } from "ethers";
+import { SafeABI } from "../abi/Safe";
+
+/** A Safe multisig transaction (the struct owners sign via EIP-712). */
+export type SafeTx = {
+  to: string;
+  value: string;
+  data: string;
+  operation: 0 | 1; // 0 = CALL, 1 = DELEGATECALL
+  safeTxGas: string;
+  baseGas: string;
+  gasPrice: string;
+  gasToken: string;
+  refundReceiver: string;
+  nonce: number;
+};
+
+/** Build a zero-gas, zero-refund SafeTx (the shape Safe{Wallet} proposes). */
+export function buildSafeTx(
+  to: string,
+  data: string,
+  nonce: number,
+  operation: 0 | 1 = 0
+): SafeTx {
+  return {
+    to: ethers.getAddress(to),
+    value: "0",
+    data,
+    operation,
+    safeTxGas: "0",
+    baseGas: "0",
+    gasPrice: "0",
+    gasToken: ethers.ZeroAddress,
+    refundReceiver: ethers.ZeroAddress,
+    nonce,
+  };
+}
+
+export async function getSafeNonce(provider: ethers.Provider, safe: string) {
+  const c = new ethers.Contract(safe, SafeABI, provider);
+  return Number(await c.nonce());
+}
+
+/** Safe < 1.3.0 signs without chainId in the domain; 1.0.0 calls baseGas "dataGas". */
+function versionAtLeast(version: string | undefined, major: number, minor: number) {
+  if (!version) return true; // unknown → assume a modern Safe
+  const [ma, mi] = version.split(".").map((x) => parseInt(x, 10));
+  if (!Number.isFinite(ma) || !Number.isFinite(mi)) return true;
+  return ma > major || (ma === major && mi >= minor);
+}
+
+/** EIP-712 payload for a SafeTx: pass straight to signer.signTypedData(). */
+export function safeTxTypedData(
+  chainId: number,
+  safe: string,
+  tx: SafeTx,
+  version?: string
+) {
+  const domain: ethers.TypedDataDomain = versionAtLeast(version, 1, 3)
+    ? { chainId, verifyingContract: ethers.getAddress(safe) }
+    : { verifyingContract: ethers.getAddress(safe) };
+
+  const gasField = versionAtLeast(version, 1, 1) ? "baseGas" : "dataGas";
+  const types = {
+    SafeTx: [
+      { name: "to", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "data", type: "bytes" },
+      { name: "operation", type: "uint8" },
+      { name: "safeTxGas", type: "uint256" },
+      { name: gasField, type: "uint256" },
+      { name: "gasPrice", type: "uint256" },
+      { name: "gasToken", type: "address" },
+      { name: "refundReceiver", type: "address" },
+      { name: "nonce", type: "uint256" },
+    ],
+  };
+
+  const { baseGas, ...rest } = tx;
+  const message = { ...rest, [gasField]: baseGas };
+  return { domain, types, message };
+}
+
+export function safeTxHash(chainId: number, safe: string, tx: SafeTx, version?: string) {
+  const { domain, types, message } = safeTxTypedData(chainId, safe, tx, version);
+  return ethers.TypedDataEncoder.hash(domain, types, message);
+}
+
+/** Ask the connected owner to sign the SafeTx (eth_signTypedData_v4). */
+export async function signSafeTx(
+  signer: ethers.Signer,
+  chainId: number,
+  safe: string,
+  tx: SafeTx,
+  version?: string
+) {
+  const { domain, types, message } = safeTxTypedData(chainId, safe, tx, version);
+  return signer.signTypedData(domain, types, message);
+}
+
+/** Prevalidated signature for 1/1 Safe:
+ *  bytes32(r=owner), bytes32(s=0), bytes1(v=0x01)
+ */
+export function prevalidatedSigFor(owner: string) {
+  const r = ethers.zeroPadValue(ethers.getAddress(owner), 32);
+  return ethers.solidityPacked(["bytes32", "bytes32", "uint8"], [r, ethers.ZeroHash, 0x01]);
+}
+
+/** Merge user ABI with minimal fallback fragments in case execTransaction is missing. */
+export function makeSafeInterface() {
+  // Human-readable signatures or JSON fragments (artifact ABIs)
+  const base: readonly (string | ethers.JsonFragment)[] = SafeABI;
+  const has = (name: string) =>
+    base.some((f) => (typeof f === "string" ? f.includes(`${name}(`) : f.name === name));
+
+  const needsExec = !has("execTransaction");
+  const needsEnable = !has("enableModule");
+
+  const fallback: string[] = [];
+  if (needsExec) {
+    fallback.push(
+      "function execTransaction(address to,uint256 value,bytes data,uint8 operation,uint256 safeTxGas,uint256 baseGas,uint256 gasPrice,address gasToken,address refundReceiver,bytes signatures) payable returns (bool)"
+    );
+  }
+  if (needsEnable) {
+    fallback.push("function enableModule(address module)");
+  }
+  return new ethers.Interface([...base, ...fallback]);
+}
+
+/** Safe expects signatures concatenated in ascending signer-address order. */
+export function packSignatures(sigs: { signer: string; signature: string }[]) {
+  const sorted = [...sigs].sort((a, b) =>
+    BigInt(a.signer) < BigInt(b.signer) ? -1 : BigInt(a.signer) > BigInt(b.signer) ? 1 : 0
+  );
+  return ethers.concat(sorted.map((s) => s.signature));
+}
+
+/** Calldata for Safe.execTransaction(tx…, signatures). */
+export function encodeExecTransaction(tx: SafeTx, signatures: string) {
+  return makeSafeInterface().encodeFunctionData("execTransaction", [
+    tx.to,
+    tx.value,
+    tx.data,
+    tx.operation,
+    tx.safeTxGas,
+    tx.baseGas,
+    tx.gasPrice,
+    tx.gasToken,
+    tx.refundReceiver,
+    signatures,
+  ]);
+}
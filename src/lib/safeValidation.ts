@@ -1,15 +1,39 @@
 // src/lib/safeValidation.ts
 import { ethers } from "ethers";
+import { SafeABI } from "../abi/Safe";
+import { multicall, type Call, type CallResult } from "./multicall";
 
 export type SafeValidationResult =
   | { ok: true; owners: string[]; threshold: number; version?: string }
   | { ok: false; reason: "invalid_address" | "no_code" | "not_safe" | "unknown"; detail?: string };
 
-const SAFE_MIN_ABI = [
-  "function getOwners() view returns (address[])",
-  "function getThreshold() view returns (uint256)",
-  "function VERSION() view returns (string)",
-];
+const safeIface = new ethers.Interface(SafeABI);
+
+/** getOwners / getThreshold / VERSION — batch these together with other reads. */
+export function safeProbeCalls(addr: string): Call[] {
+  return [
+    { target: addr, iface: safeIface, fn: "getOwners" },
+    { target: addr, iface: safeIface, fn: "getThreshold" },
+    { target: addr, iface: safeIface, fn: "VERSION" },
+  ];
+}
+
+/** Interpret getCode + the three safeProbeCalls() results. */
+export function toSafeValidation(code: string, probe: CallResult[]): SafeValidationResult {
+  if (!code || code === "0x") return { ok: false, reason: "no_code" };
+  const [owners, th, ver] = probe;
+  if (!owners.ok) return { ok: false, reason: "not_safe", detail: owners.error };
+  if (!th.ok) return { ok: false, reason: "not_safe", detail: th.error };
+
+  const list = [...(owners.value[0] as string[])];
+  const threshold = th.value[0] as bigint;
+  const version = ver.ok ? (ver.value[0] as string) : undefined;
+
+  if (list.length >= 1 && threshold > 0n) {
+    return { ok: true, owners: list, threshold: Number(threshold), version };
+  }
+  return { ok: false, reason: "not_safe", detail: "unexpected owners/threshold" };
+}
 
 export async function validateSafeOnChain(
   provider: ethers.Provider,
@@ -17,18 +41,11 @@ export async function validateSafeOnChain(
 ): Promise<SafeValidationResult> {
   try {
     if (!ethers.isAddress(addr)) return { ok: false, reason: "invalid_address" };
-    const code = await provider.getCode(addr);
-    if (!code || code === "0x") return { ok: false, reason: "no_code" };
-
-    const c = new ethers.Contract(addr, SAFE_MIN_ABI, provider);
-    const [owners, th] = await Promise.all([c.getOwners(), c.getThreshold()]);
-    let version: string | undefined;
-    try { version = await c.VERSION(); } catch {}
-
-    if (Array.isArray(owners) && owners.length >= 1 && typeof th === "bigint" && th > 0n) {
-      return { ok: true, owners, threshold: Number(th), version };
-    }
-    return { ok: false, reason: "not_safe", detail: "unexpected owners/threshold" };
+    const [code, probe] = await Promise.all([
+      provider.getCode(addr),
+      multicall(provider, safeProbeCalls(addr)),
+    ]);
+    return toSafeValidation(code, probe);
   } catch (e: any) {
     return { ok: false, reason: "not_safe", detail: e?.code || e?.message || "probe failed" };
   }
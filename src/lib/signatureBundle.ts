@@ -0,0 +1,150 @@
+// src/lib/signatureBundle.ts
+import { ethers } from "ethers";
+import { safeTxHash, safeTxTypedData, type SafeTx } from "./safeTx";
+import { fromBase64Url, toBase64Url } from "./base64url";
+
+/**
+ * A SafeTx plus the owner signatures collected so far, passed between owners
+ * as a link (`#sign=…`) or JSON blob when no Safe Transaction Service exists.
+ */
+export type SignatureBundle = {
+  v: 1;
+  chainId: number;
+  safe: string;
+  safeVersion?: string;
+  description?: string;
+  tx: SafeTx;
+  signatures: { signer: string; signature: string }[];
+};
+
+export const BUNDLE_HASH_PREFIX = "#sign=";
+
+export function createBundle(
+  chainId: number,
+  safe: string,
+  tx: SafeTx,
+  safeVersion?: string,
+  description?: string
+): SignatureBundle {
+  return {
+    v: 1,
+    chainId,
+    safe: ethers.getAddress(safe),
+    safeVersion,
+    description,
+    tx,
+    signatures: [],
+  };
+}
+
+export function bundleHash(b: SignatureBundle) {
+  return safeTxHash(b.chainId, b.safe, b.tx, b.safeVersion);
+}
+
+/** Recover the signer of an EIP-712 SafeTx signature (null if malformed). */
+export function recoverBundleSigner(b: SignatureBundle, signature: string) {
+  try {
+    const { domain, types, message } = safeTxTypedData(b.chainId, b.safe, b.tx, b.safeVersion);
+    return ethers.verifyTypedData(domain, types, message, signature);
+  } catch {
+    return null;
+  }
+}
+
+/** Append a signature after checking it recovers to `signer`; replaces an older one. */
+export function addSignature(b: SignatureBundle, signer: string, signature: string) {
+  const recovered = recoverBundleSigner(b, signature);
+  if (!recovered || recovered.toLowerCase() !== signer.toLowerCase()) {
+    throw new Error("Signature does not match the signer");
+  }
+  const rest = b.signatures.filter((s) => s.signer.toLowerCase() !== signer.toLowerCase());
+  return { ...b, signatures: [...rest, { signer: ethers.getAddress(signer), signature }] };
+}
+
+/** Merge signatures from another copy of the same SafeTx. */
+export function mergeBundles(a: SignatureBundle, b: SignatureBundle) {
+  if (bundleHash(a) !== bundleHash(b)) {
+    throw new Error("These bundles are for different transactions");
+  }
+  return b.signatures.reduce((acc, s) => {
+    try {
+      return addSignature(acc, s.signer, s.signature);
+    } catch {
+      return acc; // drop signatures that do not verify
+    }
+  }, a);
+}
+
+export function bundleToJson(b: SignatureBundle) {
+  return JSON.stringify(b, null, 2);
+}
+
+export function bundleToLink(b: SignatureBundle) {
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}${BUNDLE_HASH_PREFIX}${toBase64Url(JSON.stringify(b))}`;
+}
+
+/** Accepts a JSON blob, a full link, or just the `#sign=` fragment. */
+export function parseBundle(input: string): SignatureBundle {
+  const text = input.trim();
+  let json = text;
+  if (!text.startsWith("{")) {
+    const i = text.indexOf(BUNDLE_HASH_PREFIX);
+    const payload = i >= 0 ? text.slice(i + BUNDLE_HASH_PREFIX.length) : text;
+    try {
+      json = fromBase64Url(payload);
+    } catch {
+      throw new Error("Not a signing link or JSON bundle");
+    }
+  }
+
+  let raw: Partial<Record<keyof SignatureBundle, unknown>> | null;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("Bundle is not valid JSON");
+  }
+  if (raw?.v !== 1 || !Number.isInteger(raw.chainId) || !ethers.isAddress(raw.safe)) {
+    throw new Error("Unsupported bundle format");
+  }
+  const t = raw.tx as Partial<Record<keyof SafeTx, string | number>> | null;
+  if (!t || !ethers.isAddress(t.to) || !ethers.isHexString(t.data) || !Number.isInteger(t.nonce)) {
+    throw new Error("Bundle transaction is malformed");
+  }
+
+  const b: SignatureBundle = {
+    v: 1,
+    chainId: raw.chainId as number,
+    safe: ethers.getAddress(raw.safe),
+    safeVersion: typeof raw.safeVersion === "string" ? raw.safeVersion : undefined,
+    description: typeof raw.description === "string" ? raw.description : undefined,
+    tx: {
+      to: ethers.getAddress(t.to),
+      value: String(t.value ?? "0"),
+      data: String(t.data),
+      operation: t.operation === 1 ? 1 : 0,
+      safeTxGas: String(t.safeTxGas ?? "0"),
+      baseGas: String(t.baseGas ?? "0"),
+      gasPrice: String(t.gasPrice ?? "0"),
+      gasToken: ethers.getAddress(String(t.gasToken ?? ethers.ZeroAddress)),
+      refundReceiver: ethers.getAddress(String(t.refundReceiver ?? ethers.ZeroAddress)),
+      nonce: Number(t.nonce),
+    },
+    signatures: [],
+  };
+  // Re-verify every signature rather than trusting the blob
+  const sigs = Array.isArray(raw.signatures) ? (raw.signatures as SignatureBundle["signatures"]) : [];
+  return mergeBundles(b, { ...b, signatures: sigs });
+}
+
+/** Read a bundle from the current URL fragment, if any. */
+export function readBundleFromLocation(): SignatureBundle | null {
+  const h = window.location.hash;
+  if (!h.startsWith(BUNDLE_HASH_PREFIX)) return null;
+  try {
+    return parseBundle(h);
+  } catch (e) {
+    console.warn("[signatureBundle] ignoring invalid #sign link:", e);
+    return null;
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { fmtUTC, isValidTimeZone, localInputToUtcSeconds, toLocalInputValue } from "./time";
+import { durationToLocalInput } from "./activation";
+
+const utc = (iso: string) => Math.floor(Date.parse(iso) / 1000);
+
+describe("localInputToUtcSeconds", () => {
+  it("applies standard and daylight offsets", () => {
+    expect(localInputToUtcSeconds("2025-01-15T12:00", "Europe/Berlin")).toBe(utc("2025-01-15T11:00:00Z"));
+    expect(localInputToUtcSeconds("2025-07-15T12:00", "Europe/Berlin")).toBe(utc("2025-07-15T10:00:00Z"));
+    expect(localInputToUtcSeconds("2025-01-15T12:00", "America/New_York")).toBe(utc("2025-01-15T17:00:00Z"));
+    expect(localInputToUtcSeconds("2025-07-15T12:00", "America/New_York")).toBe(utc("2025-07-15T16:00:00Z"));
+    expect(localInputToUtcSeconds("2025-07-15T12:00:30", "UTC")).toBe(utc("2025-07-15T12:00:30Z"));
+  });
+
+  it("handles times right around a spring-forward switch", () => {
+    // Berlin: 02:00 CET → 03:00 CEST on 2025-03-30 (01:00Z)
+    expect(localInputToUtcSeconds("2025-03-30T01:59", "Europe/Berlin")).toBe(utc("2025-03-30T00:59:00Z"));
+    expect(localInputToUtcSeconds("2025-03-30T03:00", "Europe/Berlin")).toBe(utc("2025-03-30T01:00:00Z"));
+    // New York: 02:00 EST → 03:00 EDT on 2025-03-09 (07:00Z)
+    expect(localInputToUtcSeconds("2025-03-09T01:59", "America/New_York")).toBe(utc("2025-03-09T06:59:00Z"));
+    expect(localInputToUtcSeconds("2025-03-09T03:00", "America/New_York")).toBe(utc("2025-03-09T07:00:00Z"));
+  });
+
+  it("moves a time skipped by spring-forward to after the switch", () => {
+    const ts = localInputToUtcSeconds("2025-03-30T02:30", "Europe/Berlin");
+    expect(ts).toBe(utc("2025-03-30T01:30:00Z"));
+    expect(toLocalInputValue(BigInt(ts), "Europe/Berlin")).toBe("2025-03-30T03:30");
+  });
+
+  it("resolves a repeated fall-back time to one of its two instants", () => {
+    // Berlin repeats 02:00–03:00 on 2025-10-26; New York repeats 01:00–02:00 on 2025-11-02
+    for (const [v, tz, first, second] of [
+      ["2025-10-26T02:30", "Europe/Berlin", "2025-10-26T00:30:00Z", "2025-10-26T01:30:00Z"],
+      ["2025-11-02T01:30", "America/New_York", "2025-11-02T05:30:00Z", "2025-11-02T06:30:00Z"],
+    ]) {
+      const ts = localInputToUtcSeconds(v, tz);
+      expect([utc(first), utc(second)]).toContain(ts);
+      expect(toLocalInputValue(BigInt(ts), tz)).toBe(v);
+    }
+  });
+
+  it("follows southern-hemisphere daylight saving", () => {
+    expect(localInputToUtcSeconds("2025-01-15T12:00", "Australia/Sydney")).toBe(utc("2025-01-15T01:00:00Z"));
+    expect(localInputToUtcSeconds("2025-07-15T12:00", "Australia/Sydney")).toBe(utc("2025-07-15T02:00:00Z"));
+  });
+
+  it("handles zones with non-hour offsets", () => {
+    expect(localInputToUtcSeconds("2025-06-01T12:00", "Asia/Kolkata")).toBe(utc("2025-06-01T06:30:00Z"));
+  });
+
+  it("rejects malformed input", () => {
+    expect(() => localInputToUtcSeconds("2025-06-01 12:00", "UTC")).toThrow("Enter a valid date & time.");
+    expect(() => localInputToUtcSeconds("not a date")).toThrow("Enter a valid date & time.");
+  });
+});
+
+describe("toLocalInputValue", () => {
+  it("round-trips wall-clock times through a zone", () => {
+    for (const tz of ["UTC", "Europe/Berlin", "America/New_York", "Australia/Sydney", "Asia/Kolkata"]) {
+      for (const v of ["2025-01-01T00:00", "2025-03-30T04:15", "2025-10-26T12:45", "2026-02-28T23:59"]) {
+        expect(toLocalInputValue(BigInt(localInputToUtcSeconds(v, tz)), tz)).toBe(v);
+      }
+    }
+  });
+
+  it("leaves unset times empty", () => {
+    expect(toLocalInputValue(0n, "UTC")).toBe("");
+    expect(fmtUTC(0n)).toBe("—");
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA zones only", () => {
+    expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
+
+describe("durationToLocalInput", () => {
+  it("adds days and months on the selected zone's calendar", () => {
+    // Berlin springs forward overnight: +1 day keeps noon
+    expect(durationToLocalInput(utc("2025-03-29T11:00:00Z"), { n: 1, unit: "d" }, "Europe/Berlin")).toBe("2025-03-30T12:00");
+    // 31 Jan 08:00 in Auckland is still 30 Jan in UTC; +1 month clamps to the zone's 28 Feb
+    expect(durationToLocalInput(utc("2025-01-30T19:00:00Z"), { n: 1, unit: "mo" }, "Pacific/Auckland")).toBe("2025-02-28T08:00");
+    // New York falls back overnight: +1 week keeps the evening hour
+    expect(durationToLocalInput(utc("2025-10-27T22:30:00Z"), { n: 1, unit: "w" }, "America/New_York")).toBe("2025-11-03T18:30");
+    expect(durationToLocalInput(utc("2024-02-29T12:00:00Z"), { n: 1, unit: "y" }, "UTC")).toBe("2025-02-28T12:00");
+  });
+});
@@ -1,7 +1,9 @@
+// Zone-aware helpers take an optional IANA zone (e.g. "Europe/Berlin"); omitted = browser local.
+
 export const fmtUTC = (ts: bigint) =>
   ts === 0n ? "—" : new Date(Number(ts) * 1000).toISOString();
 
-export const fmtLocal = (ts: bigint) => {
+export const fmtLocal = (ts: bigint, timeZone?: string) => {
   if (ts === 0n) return "—";
   try {
     return new Intl.DateTimeFormat(undefined, {
@@ -13,23 +15,102 @@ export const fmtLocal = (ts: bigint) => {
       second: "2-digit",
       hour12: false,
       timeZoneName: "short",
+      timeZone: timeZone || undefined,
     }).format(new Date(Number(ts) * 1000));
   } catch {
     return new Date(Number(ts) * 1000).toLocaleString();
   }
 };
 
-export const toLocalInputValue = (ts: bigint) => {
+/** Wall-clock parts of `ms` in `timeZone`. */
+function zonedParts(ms: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(ms));
+  const get = (t: string) => Number(parts.find((p) => p.type === t)?.value);
+  return { y: get("year"), mo: get("month"), d: get("day"), h: get("hour"), mi: get("minute"), s: get("second") };
+}
+
+/** UTC offset of `timeZone` at instant `ms`, in ms (east positive). */
+function zoneOffsetMs(ms: number, timeZone: string) {
+  const p = zonedParts(ms, timeZone);
+  return Date.UTC(p.y, p.mo - 1, p.d, p.h, p.mi, p.s) - Math.floor(ms / 1000) * 1000;
+}
+
+export const toLocalInputValue = (ts: bigint, timeZone?: string) => {
   if (ts === 0n) return "";
-  const d = new Date(Number(ts) * 1000);
   const pad = (n: number) => String(n).padStart(2, "0");
+  if (timeZone) {
+    const p = zonedParts(Number(ts) * 1000, timeZone);
+    return `${p.y}-${pad(p.mo)}-${pad(p.d)}T${pad(p.h)}:${pad(p.mi)}`;
+  }
+  const d = new Date(Number(ts) * 1000);
   return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(
     d.getHours()
   )}:${pad(d.getMinutes())}`;
 };
 
-export const localInputToUtcSeconds = (v: string) => {
-  const ms = Date.parse(v); // local time parsed as local
-  if (!Number.isFinite(ms)) throw new Error("Enter a valid date & time.");
-  return Math.floor(ms / 1000);
+export const localInputToUtcSeconds = (v: string, timeZone?: string) => {
+  if (!timeZone) {
+    const ms = Date.parse(v); // local time parsed as local
+    if (!Number.isFinite(ms)) throw new Error("Enter a valid date & time.");
+    return Math.floor(ms / 1000);
+  }
+  const m = v.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/);
+  if (!m) throw new Error("Enter a valid date & time.");
+  const [y, mo, d, h, mi, s] = m.slice(1).map((x) => Number(x || 0));
+  const wall = Date.UTC(y, mo - 1, d, h, mi, s);
+  // Offset at the guess, then re-check once across a DST boundary
+  let utc = wall - zoneOffsetMs(wall, timeZone);
+  utc = wall - zoneOffsetMs(utc, timeZone);
+  return Math.floor(utc / 1000);
+};
+
+export const browserTimeZone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+};
+
+/** IANA zones known to this browser (short fallback list on older engines). */
+export function listTimeZones(): string[] {
+  try {
+    // Declared by lib ES2022 but missing on older engines
+    const zones = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : undefined;
+    if (zones?.length) return zones.includes("UTC") ? zones : ["UTC", ...zones];
+  } catch {
+    /* not supported */
+  }
+  return [
+    "UTC",
+    "America/Los_Angeles",
+    "America/New_York",
+    "America/Sao_Paulo",
+    "Europe/London",
+    "Europe/Berlin",
+    "Europe/Moscow",
+    "Asia/Dubai",
+    "Asia/Kolkata",
+    "Asia/Singapore",
+    "Asia/Tokyo",
+    "Australia/Sydney",
+  ];
+}
+
+export const isValidTimeZone = (tz: string) => {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
 };
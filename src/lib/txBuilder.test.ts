@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { ethers } from "ethers";
+import { batchChecksum, createBatch, enableModuleTx, type TxBuilderBatch } from "./txBuilder";
+
+const SAFE = ethers.getAddress("0x1c511d88ba898b4d9cd9113d13b9c360a02fcea1");
+const MODULE = ethers.getAddress("0x5afe3855358e112b5647b952709e6165e1c1eeee");
+
+const batch = (over: Partial<TxBuilderBatch> = {}): TxBuilderBatch => ({
+  version: "1.0",
+  chainId: "1",
+  createdAt: 1700000000000,
+  meta: {
+    name: "Install",
+    description: "",
+    txBuilderVersion: "1.16.5",
+    createdFromSafeAddress: SAFE,
+    createdFromOwnerAddress: "",
+  },
+  transactions: [],
+  ...over,
+});
+
+describe("batchChecksum", () => {
+  it("hashes the Transaction Builder's key-sorted serialization", () => {
+    // Keys as a JSON array, then every value followed by a comma; meta.name is nulled
+    const serialized =
+      '{["chainId","createdAt","meta","transactions","version"]"1",1700000000000,' +
+      '{["createdFromOwnerAddress","createdFromSafeAddress","description","name","txBuilderVersion"]' +
+      `"","${SAFE}","",null,"1.16.5",},[],"1.0",}`;
+    expect(batchChecksum(batch())).toBe(ethers.id(serialized));
+  });
+
+  it("ignores meta.name and an existing checksum", () => {
+    const b = batch();
+    expect(batchChecksum({ ...b, meta: { ...b.meta, name: "Renamed", checksum: "0x1234" } })).toBe(batchChecksum(b));
+  });
+
+  it("covers the transactions", () => {
+    const b = batch();
+    expect(batchChecksum({ ...b, transactions: [enableModuleTx(SAFE, MODULE)] })).not.toBe(batchChecksum(b));
+  });
+
+  it("does not depend on key order", () => {
+    const tx = enableModuleTx(SAFE, MODULE);
+    const reordered = {
+      contractInputsValues: tx.contractInputsValues,
+      data: tx.data,
+      contractMethod: tx.contractMethod,
+      value: tx.value,
+      to: tx.to,
+    };
+    expect(batchChecksum(batch({ transactions: [reordered] }))).toBe(batchChecksum(batch({ transactions: [tx] })));
+  });
+});
+
+describe("createBatch", () => {
+  it("stamps a checksum that validates", () => {
+    const b = createBatch(11155111, SAFE.toLowerCase(), [enableModuleTx(SAFE, MODULE)], "Install", "Enable the module");
+    expect(b.chainId).toBe("11155111");
+    expect(b.meta.createdFromSafeAddress).toBe(SAFE);
+    expect(b.meta.checksum).toBe(batchChecksum(b));
+  });
+});
@@ -0,0 +1,115 @@
+// src/lib/txBuilder.ts
+import { ethers } from "ethers";
+
+/**
+ * Batch file for the Safe{Wallet} Transaction Builder app (format 1.0).
+ * Owners drag it into the builder instead of hand-typing calldata.
+ */
+export type TxBuilderInput = { internalType: string; name: string; type: string };
+
+export type TxBuilderTx = {
+  to: string;
+  value: string;
+  data: string | null;
+  contractMethod: { inputs: TxBuilderInput[]; name: string; payable: boolean } | null;
+  contractInputsValues: Record<string, string> | null;
+};
+
+export type TxBuilderBatch = {
+  version: "1.0";
+  chainId: string;
+  createdAt: number; // ms
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+    checksum?: string;
+  };
+  transactions: TxBuilderTx[];
+};
+
+const TX_BUILDER_VERSION = "1.16.5";
+
+const addr = (name: string): TxBuilderInput => ({ internalType: "address", name, type: "address" });
+
+function call(to: string, name: string, inputs: TxBuilderInput[], values: string[]): TxBuilderTx {
+  return {
+    to: ethers.getAddress(to),
+    value: "0",
+    data: null,
+    contractMethod: { inputs, name, payable: false },
+    contractInputsValues: Object.fromEntries(inputs.map((inp, i) => [inp.name, values[i]])),
+  };
+}
+
+/** Factory `deploy(safe, extraSalt)` — creates the module at the predicted address. */
+export function deployModuleTx(factory: string, safe: string, saltHex: string) {
+  return call(
+    factory,
+    "deploy",
+    [addr("safe"), { internalType: "bytes32", name: "extraSalt", type: "bytes32" }],
+    [ethers.getAddress(safe), saltHex]
+  );
+}
+
+/** Safe `enableModule(module)` (a self-call of the Safe). */
+export function enableModuleTx(safe: string, module: string) {
+  return call(safe, "enableModule", [addr("module")], [ethers.getAddress(module)]);
+}
+
+/** Safe `disableModule(prevModule, module)`; `prevModule` is the module's predecessor in the linked list. */
+export function disableModuleTx(safe: string, prevModule: string, module: string) {
+  return call(
+    safe,
+    "disableModule",
+    [addr("prevModule"), addr("module")],
+    [ethers.getAddress(prevModule), ethers.getAddress(module)]
+  );
+}
+
+// The builder's checksum: keccak256 over a key-sorted serialization with meta.name nulled
+function serialize(json: unknown): string {
+  if (Array.isArray(json)) return `[${json.map(serialize).join(",")}]`;
+  if (typeof json === "object" && json !== null) {
+    const o = json as Record<string, unknown>;
+    const keys = Object.keys(o).sort();
+    return `{${JSON.stringify(keys)}${keys.map((k) => `${serialize(o[k])},`).join("")}}`;
+  }
+  return JSON.stringify(json === undefined ? null : json);
+}
+
+export function batchChecksum(b: TxBuilderBatch) {
+  const meta = { ...b.meta };
+  delete meta.checksum;
+  return ethers.id(serialize({ ...b, meta: { ...meta, name: null } }));
+}
+
+export function createBatch(
+  chainId: number,
+  safe: string,
+  transactions: TxBuilderTx[],
+  name: string,
+  description = ""
+): TxBuilderBatch {
+  const b: TxBuilderBatch = {
+    version: "1.0",
+    chainId: String(chainId),
+    createdAt: Date.now(),
+    meta: {
+      name,
+      description,
+      txBuilderVersion: TX_BUILDER_VERSION,
+      createdFromSafeAddress: ethers.getAddress(safe),
+      createdFromOwnerAddress: "",
+    },
+    transactions,
+  };
+  b.meta.checksum = batchChecksum(b);
+  return b;
+}
+
+export function batchFilename(b: TxBuilderBatch, what: string) {
+  return `heirsafe-${what}-${b.meta.createdFromSafeAddress.slice(0, 10)}-chain${b.chainId}.json`;
+}
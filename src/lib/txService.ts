@@ -0,0 +1,127 @@
+// src/lib/txService.ts
+import { ethers } from "ethers";
+import type { SafeTx } from "./safeTx";
+
+/** Subset of the Safe Transaction Service multisig tx we rely on. */
+export type ServiceMultisigTx = {
+  safeTxHash: string;
+  to: string;
+  value: string;
+  data: string | null;
+  operation: 0 | 1;
+  safeTxGas: string | number;
+  baseGas: string | number;
+  gasPrice: string;
+  gasToken: string;
+  refundReceiver: string;
+  nonce: number;
+  confirmationsRequired: number;
+  confirmations: { owner: string; signature: string }[];
+  isExecuted: boolean;
+  transactionHash: string | null;
+};
+
+function apiUrl(base: string, path: string) {
+  return `${base.replace(/\/+$/, "")}/api/v1${path}`;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...(init?.headers || {}) },
+  });
+  if (!res.ok) {
+    let detail = "";
+    try {
+      detail = JSON.stringify(await res.json());
+    } catch {
+      /* non-JSON error body */
+    }
+    throw new Error(`Tx service ${res.status}${detail ? `: ${detail}` : ""}`);
+  }
+  // 201/204 responses carry no body
+  const text = await res.text();
+  return (text ? JSON.parse(text) : null) as T;
+}
+
+/** Rebuild the signable SafeTx struct from a service record. */
+export function serviceTxToSafeTx(t: ServiceMultisigTx): SafeTx {
+  return {
+    to: ethers.getAddress(t.to),
+    value: String(t.value ?? "0"),
+    data: t.data || "0x",
+    operation: t.operation,
+    safeTxGas: String(t.safeTxGas ?? "0"),
+    baseGas: String(t.baseGas ?? "0"),
+    gasPrice: String(t.gasPrice ?? "0"),
+    gasToken: t.gasToken || ethers.ZeroAddress,
+    refundReceiver: t.refundReceiver || ethers.ZeroAddress,
+    nonce: Number(t.nonce),
+  };
+}
+
+/** Next nonce to propose with: on-chain nonce, or after the last queued proposal. */
+export async function getNextServiceNonce(
+  base: string,
+  safe: string,
+  onChainNonce: number
+) {
+  const url = apiUrl(
+    base,
+    `/safes/${ethers.getAddress(safe)}/multisig-transactions/?nonce__gte=${onChainNonce}&ordering=-nonce&limit=1`
+  );
+  const page = await request<{ results: ServiceMultisigTx[] }>(url);
+  const top = page?.results?.[0];
+  return top ? Math.max(onChainNonce, Number(top.nonce) + 1) : onChainNonce;
+}
+
+/** Find a queued (not executed) proposal calling `to` with exactly `data`. */
+export async function findQueuedTx(
+  base: string,
+  safe: string,
+  to: string,
+  data: string,
+  onChainNonce: number
+): Promise<ServiceMultisigTx | null> {
+  const url = apiUrl(
+    base,
+    `/safes/${ethers.getAddress(safe)}/multisig-transactions/?executed=false&nonce__gte=${onChainNonce}&to=${ethers.getAddress(to)}&limit=20`
+  );
+  const page = await request<{ results: ServiceMultisigTx[] }>(url);
+  return (
+    page?.results?.find((t) => (t.data || "0x").toLowerCase() === data.toLowerCase()) ?? null
+  );
+}
+
+export async function getServiceTx(base: string, safeTxHash: string) {
+  return request<ServiceMultisigTx>(apiUrl(base, `/multisig-transactions/${safeTxHash}/`));
+}
+
+/** Propose a SafeTx signed by `sender` (must be an owner or delegate). */
+export async function proposeSafeTx(
+  base: string,
+  safe: string,
+  tx: SafeTx,
+  safeTxHash: string,
+  sender: string,
+  signature: string
+) {
+  await request(apiUrl(base, `/safes/${ethers.getAddress(safe)}/multisig-transactions/`), {
+    method: "POST",
+    body: JSON.stringify({
+      ...tx,
+      contractTransactionHash: safeTxHash,
+      sender: ethers.getAddress(sender),
+      signature,
+      origin: "HeirSafe",
+    }),
+  });
+}
+
+/** Add another owner's signature to an existing proposal. */
+export async function confirmSafeTx(base: string, safeTxHash: string, signature: string) {
+  await request(apiUrl(base, `/multisig-transactions/${safeTxHash}/confirmations/`), {
+    method: "POST",
+    body: JSON.stringify({ signature }),
+  });
+}
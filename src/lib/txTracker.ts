@@ -0,0 +1,295 @@
+// src/lib/txTracker.ts
+import { useSyncExternalStore } from "react";
+import { ethers } from "ethers";
+import { getPublicProvider } from "./rpc";
+import { notify } from "./notifications";
+
+export type TxStatus = "pending" | "mined" | "failed" | "replaced" | "cancelled" | "dropped";
+
+/** A sent transaction we keep watching across reloads until it settles. */
+export type TrackedTx = {
+  hash: string; // current hash (follows speed-ups)
+  origHash: string; // first hash we saw (correlation key)
+  chainId: number;
+  label: string;
+  safe?: string;
+  owner?: string;
+  from: string;
+  nonce: number;
+  to: string | null;
+  data: string;
+  value: string;
+  startBlock: number; // block at submission (bounds the replacement scan)
+  submittedAt: number; // ms
+  status: TxStatus;
+  confirmations: number;
+  blockNumber?: number;
+  replacedBy?: string;
+  scannedTo?: number; // last block searched for whatever consumed our nonce
+};
+
+const LS_KEY = "heirsafe:txs";
+const MAX_KEPT = 50;
+const POLL_MS = 4000;
+const SHOW_CONFIRMATIONS = 3; // keep polling a mined tx until this many confirmations
+const LOOKBACK_BLOCKS = 200; // replacement search start when the submission block is unknown
+const SCAN_BLOCKS_PER_POLL = 10; // full-block fetches per poll when the nonce can't be bisected
+const DROP_AFTER_MS = 6 * 3600_000; // never seen and nonce unused for this long → dropped
+
+/** Newest first, at most MAX_KEPT; pending txs are never evicted since their watchers and trackTx callers need them. */
+function cap(list: TrackedTx[]) {
+  let room = MAX_KEPT - list.filter((t) => t.status === "pending").length;
+  return list.filter((t) => t.status === "pending" || room-- > 0);
+}
+
+function load(): TrackedTx[] {
+  try {
+    const v = JSON.parse(localStorage.getItem(LS_KEY) || "[]");
+    return Array.isArray(v) ? cap(v.filter((t) => t && typeof t.hash === "string")) : [];
+  } catch {
+    return [];
+  }
+}
+
+// --- store ---
+
+let txs: TrackedTx[] = load();
+const listeners = new Set<() => void>();
+const settledListeners = new Set<(t: TrackedTx) => void>();
+const waiters = new Map<string, ((t: TrackedTx) => void)[]>();
+const liveProviders = new Map<string, ethers.Provider>(); // this session only
+const watching = new Set<string>();
+
+function save() {
+  try {
+    localStorage.setItem(LS_KEY, JSON.stringify(txs));
+  } catch {
+    /* storage blocked */
+  }
+}
+
+/** Patch a stored tx; null if it is gone (e.g. the list was cleared meanwhile). */
+function update(origHash: string, patch: Partial<TrackedTx>): TrackedTx | null {
+  txs = txs.map((t) => (t.origHash === origHash ? { ...t, ...patch } : t));
+  save();
+  listeners.forEach((l) => l());
+  return txs.find((t) => t.origHash === origHash) ?? null;
+}
+
+function subscribe(l: () => void) {
+  listeners.add(l);
+  return () => listeners.delete(l);
+}
+
+export function useTrackedTxs() {
+  return useSyncExternalStore(subscribe, () => txs);
+}
+
+/** Called once per tx when it leaves "pending" (mined, failed, replaced…). */
+export function onTxSettled(cb: (t: TrackedTx) => void) {
+  settledListeners.add(cb);
+  return () => {
+    settledListeners.delete(cb);
+  };
+}
+
+export function clearSettledTxs() {
+  txs = txs.filter((t) => t.status === "pending");
+  save();
+  listeners.forEach((l) => l());
+}
+
+// --- watching ---
+
+// The public RPC is pinned to the tx's chain; the wallet provider may have switched networks
+function providerFor(t: TrackedTx) {
+  return getPublicProvider(t.chainId) ?? liveProviders.get(t.origHash) ?? null;
+}
+
+const MESSAGES: Record<Exclude<TxStatus, "pending">, [string, "success" | "error" | "warn"]> = {
+  mined: ["confirmed ✅", "success"],
+  failed: ["reverted", "error"],
+  replaced: ["was replaced by a different transaction", "warn"],
+  cancelled: ["was cancelled in the wallet", "warn"],
+  dropped: ["was dropped by the network", "warn"],
+};
+
+function settle(t: TrackedTx) {
+  if (t.status === "pending") return;
+  const [msg, severity] = MESSAGES[t.status];
+  notify(`${t.label} ${msg}`, severity, {
+    key: t.origHash,
+    txHash: t.hash,
+    chainId: t.chainId,
+    safe: t.safe,
+    owner: t.owner,
+    source: "Transactions",
+  });
+  settledListeners.forEach((l) => l(t));
+  (waiters.get(t.origHash) ?? []).forEach((w) => w(t));
+  waiters.delete(t.origHash);
+}
+
+/** First block in [lo, hi] after which `from` had used `nonce`; bisects eth_getTransactionCount. */
+async function nonceUsedAt(p: ethers.Provider, t: TrackedTx, lo: number, hi: number) {
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if ((await p.getTransactionCount(t.from, mid)) > t.nonce) hi = mid;
+    else lo = mid + 1;
+  }
+  return lo;
+}
+
+/**
+ * Find what consumed our nonce, resuming after `scannedTo`. Bisecting the
+ * nonce needs historical state, which many public RPCs lack; then it walks
+ * forward a few full blocks per poll instead of the whole range at once.
+ */
+async function findReplacement(p: ethers.Provider, t: TrackedTx, latest: number) {
+  const from = t.from.toLowerCase();
+  // startBlock is read after sending; step back a little in case the nonce went in just before
+  const start = t.startBlock ? Math.max(0, t.startBlock - 2) : Math.max(0, latest - LOOKBACK_BLOCKS);
+  const lo = t.scannedTo != null ? t.scannedTo + 1 : start;
+  if (lo > latest) return { hit: null, scannedTo: latest };
+
+  const at = await nonceUsedAt(p, t, lo, latest).catch(() => null);
+  const last = at ?? Math.min(latest, lo + SCAN_BLOCKS_PER_POLL - 1);
+  for (let b = at ?? lo; b <= last; b++) {
+    const block = await p.getBlock(b, true);
+    const hit = block?.prefetchedTransactions.find(
+      (x) => x.from.toLowerCase() === from && x.nonce === t.nonce
+    );
+    if (hit) return { hit, scannedTo: b };
+  }
+  return { hit: null, scannedTo: at != null ? latest : last };
+}
+
+/** Store the final state and publish it (even if the entry was removed meanwhile). */
+function finish(t: TrackedTx, patch: Partial<TrackedTx>) {
+  settle(update(t.origHash, patch) ?? { ...t, ...patch });
+}
+
+async function poll(t: TrackedTx): Promise<boolean> {
+  const p = providerFor(t);
+  if (!p) return false;
+
+  const receipt = await p.getTransactionReceipt(t.hash);
+  const latest = await p.getBlockNumber();
+  if (receipt) {
+    const confirmations = Math.max(1, latest - receipt.blockNumber + 1);
+    if (t.status === "pending") {
+      finish(t, {
+        status: receipt.status === 1 ? "mined" : "failed",
+        blockNumber: receipt.blockNumber,
+        confirmations,
+      });
+    } else {
+      update(t.origHash, { confirmations });
+    }
+    return confirmations >= SHOW_CONFIRMATIONS;
+  }
+
+  // Not mined: has the nonce been used by something else?
+  const used = await p.getTransactionCount(t.from, "latest");
+  if (used > t.nonce) {
+    const { hit: r, scannedTo } = await findReplacement(p, t, latest);
+    if (r && r.hash !== t.hash) {
+      const sameCall =
+        (r.to ?? "").toLowerCase() === (t.to ?? "").toLowerCase() &&
+        r.data === t.data &&
+        r.value.toString() === t.value;
+      if (sameCall) {
+        // Sped up: follow the new hash; the receipt check picks it up next round
+        update(t.origHash, { hash: r.hash, replacedBy: r.hash });
+        return false;
+      }
+      const cancelled = r.to?.toLowerCase() === t.from.toLowerCase() && r.value === 0n && r.data === "0x";
+      finish(t, { status: cancelled ? "cancelled" : "replaced", replacedBy: r.hash, scannedTo });
+      return true;
+    }
+    if (r) return false; // our own tx is in a block; the receipt shows up next round
+    update(t.origHash, { scannedTo });
+    // Every block since submission searched and nothing carries our nonce: no evidence of a replacement
+    if (scannedTo >= latest) {
+      finish(t, { status: "dropped" });
+      return true;
+    }
+  } else if (Date.now() - t.submittedAt > DROP_AFTER_MS && !(await p.getTransaction(t.hash))) {
+    finish(t, { status: "dropped" });
+    return true;
+  }
+  return false;
+}
+
+function watch(origHash: string) {
+  if (watching.has(origHash)) return;
+  watching.add(origHash);
+  const tick = async () => {
+    const t = txs.find((x) => x.origHash === origHash);
+    if (!t) return watching.delete(origHash);
+    let finished = false;
+    try {
+      finished = await poll(t);
+    } catch (e) {
+      console.debug("[txTracker] poll failed:", t.hash, e);
+    }
+    if (finished) watching.delete(origHash);
+    else setTimeout(tick, POLL_MS);
+  };
+  tick();
+}
+
+/** Resume watching everything still pending (or short on confirmations) after a reload. */
+export function resumeTracking() {
+  for (const t of txs) {
+    if (t.status === "pending" || (t.status === "mined" && t.confirmations < SHOW_CONFIRMATIONS)) {
+      watch(t.origHash);
+    }
+  }
+}
+
+/**
+ * Persist and watch a just-sent tx. Resolves once it settles (mined, failed,
+ * replaced, cancelled, dropped); outcomes are also published as notifications.
+ */
+export async function trackTx(
+  tx: ethers.TransactionResponse,
+  meta: { label: string; safe?: string; owner?: string }
+): Promise<TrackedTx> {
+  const chainId = Number(tx.chainId);
+  const startBlock = await tx.provider.getBlockNumber().catch(() => 0);
+  const t: TrackedTx = {
+    ...meta,
+    hash: tx.hash,
+    origHash: tx.hash,
+    chainId,
+    from: tx.from,
+    nonce: tx.nonce,
+    to: tx.to,
+    data: tx.data,
+    value: tx.value.toString(),
+    startBlock,
+    submittedAt: Date.now(),
+    status: "pending",
+    confirmations: 0,
+  };
+  txs = cap([t, ...txs.filter((x) => x.origHash !== t.origHash)]);
+  save();
+  listeners.forEach((l) => l());
+  liveProviders.set(t.origHash, tx.provider);
+
+  notify(`${meta.label} — awaiting confirmation…`, "info", {
+    key: t.origHash,
+    txHash: t.hash,
+    chainId,
+    safe: meta.safe,
+    owner: meta.owner,
+    source: "Transactions",
+  });
+
+  const done = new Promise<TrackedTx>((resolve) => {
+    waiters.set(t.origHash, [...(waiters.get(t.origHash) ?? []), resolve]);
+  });
+  watch(t.origHash);
+  return done;
+}
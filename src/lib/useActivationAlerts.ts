@@ -0,0 +1,132 @@
+// src/lib/useActivationAlerts.ts
+import { useEffect, useRef } from "react";
+import { ethers } from "ethers";
+
+type AlertRow = { owner: string; beneficiary: string; ts: bigint };
+
+type Options = {
+  enabled: boolean;
+  warnDays: number;
+  chainId: number | null; // alerts are keyed per chain: the same Safe address can differ across chains
+  safeAddr: string;
+  rows: AlertRow[];
+  nowSec: number;
+  chainTs: number;
+};
+
+const LS_SENT = "heirsafe:notified";
+const LS_OWNERS = "heirsafe:seenOwners:";
+
+const short = (a: string) => `${a.slice(0, 6)}…${a.slice(-4)}`;
+
+export function notificationsSupported() {
+  return typeof window !== "undefined" && "Notification" in window;
+}
+
+/** Ask for permission (must run from a user gesture); true when granted. */
+export async function requestNotificationPermission() {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === "granted") return true;
+  if (Notification.permission === "denied") return false;
+  return (await Notification.requestPermission()) === "granted";
+}
+
+/** True only when a notification was actually displayed. */
+function show(title: string, body: string, tag: string) {
+  if (!notificationsSupported() || Notification.permission !== "granted") return false;
+  try {
+    const n = new Notification(title, { body, tag, icon: "/logo-heirsafe.svg" });
+    n.onclick = () => window.focus();
+    return true;
+  } catch (e) {
+    console.debug("[alerts] Notification failed:", e);
+    return false;
+  }
+}
+
+function loadSent(): Set<string> {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(LS_SENT) || "[]"));
+  } catch {
+    return new Set();
+  }
+}
+
+/**
+ * Fire each alert at most once (remembered across reloads):
+ *  - activation enters the warning window
+ *  - chain time passes activation (claim becomes available)
+ *  - the Safe's owner list changed since we last saw it
+ */
+export function useActivationAlerts({ enabled, warnDays, chainId, safeAddr, rows, nowSec, chainTs }: Options) {
+  const sent = useRef<Set<string>>(loadSent());
+
+  function once(key: string, title: string, body: string) {
+    // Not remembered unless shown, so a later permission grant still gets the alert
+    if (sent.current.has(key) || !show(title, body, key)) return;
+    sent.current.add(key);
+    try {
+      // keep the most recent keys only
+      localStorage.setItem(LS_SENT, JSON.stringify([...sent.current].slice(-500)));
+    } catch {
+      /* storage full/blocked */
+    }
+  }
+
+  // Activation windows
+  useEffect(() => {
+    if (!enabled || chainId == null) return;
+    const safe = `${chainId}:${safeAddr.toLowerCase()}`;
+    for (const r of rows) {
+      if (r.ts === 0n || r.beneficiary === ethers.ZeroAddress) continue;
+      const ts = Number(r.ts);
+      const base = `${safe}:${r.owner.toLowerCase()}:${r.ts}`;
+
+      if (chainTs > 0 && chainTs >= ts) {
+        once(
+          `${base}:available`,
+          "HeirSafe: claim available",
+          `Owner ${short(r.owner)} reached activation — ${short(r.beneficiary)} can now claim.`
+        );
+      } else if (nowSec < ts && nowSec >= ts - warnDays * 86400) {
+        const days = Math.max(1, Math.ceil((ts - nowSec) / 86400));
+        once(
+          `${base}:warn`,
+          "HeirSafe: activation approaching",
+          `Owner ${short(r.owner)} activates in ~${days} day${days !== 1 ? "s" : ""}. Prolong if still in control.`
+        );
+      }
+    }
+  }, [enabled, warnDays, chainId, safeAddr, rows, nowSec, chainTs]);
+
+  // Owner replacements
+  const ownersKey = rows.map((r) => r.owner.toLowerCase()).sort().join(",");
+  useEffect(() => {
+    if (!ownersKey || chainId == null || !ethers.isAddress(safeAddr)) return;
+    const safe = `${chainId}:${safeAddr.toLowerCase()}`;
+    const key = LS_OWNERS + safe;
+    let prev: string | null = null;
+    try {
+      prev = localStorage.getItem(key);
+      localStorage.setItem(key, ownersKey);
+    } catch {
+      /* storage blocked */
+    }
+    if (!enabled || prev == null || prev === ownersKey) return;
+
+    const before = new Set(prev.split(","));
+    const now = new Set(ownersKey.split(","));
+    const gone = [...before].filter((o) => !now.has(o));
+    const added = [...now].filter((o) => !before.has(o));
+    once(
+      `${safe}:owners:${ownersKey}`,
+      "HeirSafe: Safe owners changed",
+      [
+        gone.length ? `Removed: ${gone.map(short).join(", ")}` : "",
+        added.length ? `Added: ${added.map(short).join(", ")}` : "",
+      ]
+        .filter(Boolean)
+        .join(" · ")
+    );
+  }, [enabled, chainId, safeAddr, ownersKey]);
+}
@@ -0,0 +1,18 @@
+// src/lib/useEns.ts
+import { useEffect, useState } from "react";
+import { lookupEnsName, type EnsName } from "./ens";
+
+/** Reverse ENS record for `addr` (resolved via mainnet), or null. */
+export function useEnsName(addr: string, enabled = true) {
+  const [ens, setEns] = useState<EnsName | null>(null);
+  useEffect(() => {
+    setEns(null);
+    if (!enabled) return;
+    let stop = false;
+    lookupEnsName(addr).then((r) => !stop && setEns(r));
+    return () => {
+      stop = true;
+    };
+  }, [addr, enabled]);
+  return ens;
+}
@@ -0,0 +1,12 @@
+// src/lib/useLatest.ts
+import { useLayoutEffect, useRef } from "react";
+
+/** Ref to the latest `value`, for timers and subscriptions that must not restart when it changes. */
+export function useLatest<T>(value: T) {
+  const ref = useRef(value);
+  // Layout effects run before passive ones, so effects below always see the current value
+  useLayoutEffect(() => {
+    ref.current = value;
+  });
+  return ref;
+}
@@ -0,0 +1,40 @@
+// src/lib/useTimeZonePrefs.ts
+import { useEffect, useState } from "react";
+import { isValidTimeZone } from "./time";
+
+const LS_ZONE = "heirsafe:timeZone";
+const LS_EXTRA = "heirsafe:extraZones";
+
+/**
+ * Display/entry zone ("" = browser local) plus extra zones shown under each
+ * activation time; both remembered in localStorage.
+ */
+export function useTimeZonePrefs() {
+  const [zone, setZone] = useState<string>(() => {
+    try {
+      const v = localStorage.getItem(LS_ZONE) || "";
+      return v && isValidTimeZone(v) ? v : "";
+    } catch {
+      return "";
+    }
+  });
+  const [extra, setExtra] = useState<string[]>(() => {
+    try {
+      const v = JSON.parse(localStorage.getItem(LS_EXTRA) || "[]");
+      return Array.isArray(v) ? v.filter((z) => typeof z === "string" && isValidTimeZone(z)) : [];
+    } catch {
+      return [];
+    }
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(LS_ZONE, zone);
+      localStorage.setItem(LS_EXTRA, JSON.stringify(extra));
+    } catch {
+      /* storage blocked */
+    }
+  }, [zone, extra]);
+
+  return { zone, setZone, extra, setExtra };
+}
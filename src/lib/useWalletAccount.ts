@@ -0,0 +1,8 @@
+// src/lib/useWalletAccount.ts
+import { useAccount } from "wagmi";
+
+/** Connected account of any wagmi connector ("" if none); follows account/chain changes. */
+export function useWalletAccount() {
+  const { address } = useAccount();
+  return address ?? "";
+}
@@ -0,0 +1,12 @@
+// src/lib/wallet.ts
+import { switchChain } from "wagmi/actions";
+import { getAddChainParams } from "../config/chains";
+import { wagmiConfig } from "../wallet/config";
+
+/** Switch the connected wallet through its wagmi connector; connectors add unknown chains from the registry params. */
+export async function switchWalletChain(target: number) {
+  await switchChain(wagmiConfig, {
+    chainId: target,
+    addEthereumChainParameter: getAddChainParams(target) ?? undefined,
+  });
+}
@@ -1,13 +1,25 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
-import WalletRoot from "./wallet/WagmiProvider";
-import App from "./App";
+import { loadRuntimeConfig } from "./config/runtime";
+import StartupError from "./components/StartupError";
+import { errorMessage } from "./lib/errors";
 import "./index.css";
 
-ReactDOM.createRoot(document.getElementById("root")!).render(
-  <React.StrictMode>
-    <WalletRoot>
-      <App />
-    </WalletRoot>
-  </React.StrictMode>
-);
+const root = ReactDOM.createRoot(document.getElementById("root")!);
+
+// config.json first: the chain registry, wagmi config and App read it at import time
+loadRuntimeConfig()
+  .then(() => Promise.all([import("./wallet/WagmiProvider"), import("./App")]))
+  .then(([{ default: WalletRoot }, { default: App }]) => {
+    root.render(
+      <React.StrictMode>
+        <WalletRoot>
+          <App />
+        </WalletRoot>
+      </React.StrictMode>
+    );
+  })
+  .catch((e: unknown) => {
+    console.error("[startup] failed:", e);
+    root.render(<StartupError message={errorMessage(e)} />);
+  });
@@ -0,0 +1,36 @@
+// src/wallet/config.ts
+import { createConfig, fallback, http } from "wagmi";
+import { defineChain, type Chain } from "viem";
+import { injected, walletConnect, coinbaseWallet } from "@wagmi/connectors";
+import { CHAINS, SUPPORTED_CHAIN_IDS, getExplorerUrl, type ChainConfig } from "../config/chains";
+import { getRuntimeConfig } from "../config/runtime";
+
+/** wagmi/viem chain for a registry entry. */
+function toWagmiChain(c: ChainConfig): Chain {
+  const explorer = getExplorerUrl(c.id);
+  return defineChain({
+    id: c.id,
+    name: c.walletName ?? c.name,
+    nativeCurrency: c.nativeCurrency,
+    rpcUrls: { default: { http: c.rpcUrls } },
+    ...(explorer ? { blockExplorers: { default: { name: "Explorer", url: explorer } } } : {}),
+    testnet: c.testnet,
+  });
+}
+
+const chains = SUPPORTED_CHAIN_IDS.map((id) => toWagmiChain(CHAINS[id])) as [Chain, ...Chain[]];
+
+/** Module-level so non-hook code (signers, chain switching) can read the connection. */
+export const wagmiConfig = createConfig({
+  chains,
+  transports: Object.fromEntries(
+    SUPPORTED_CHAIN_IDS.map((id) => [id, fallback(CHAINS[id].rpcUrls.map((u) => http(u)))])
+  ),
+  connectors: [
+    injected({ shimDisconnect: true }),                           // MetaMask/Rabby/Brave/etc.
+    coinbaseWallet({ appName: "HeirSafeUI" }),                    // Coinbase Wallet
+    walletConnect({ projectId: getRuntimeConfig().walletConnectProjectId })
+  ],
+  multiInjectedProviderDiscovery: true,
+  ssr: false,
+});
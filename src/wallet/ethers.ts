@@ -0,0 +1,49 @@
+// src/wallet/ethers.ts
+import { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { useAccount } from "wagmi";
+import { getAccount } from "wagmi/actions";
+import { wagmiConfig } from "./config";
+
+/*
+ * ethers adapter over the wagmi connection: every signer and wallet-backed
+ * provider in the app comes from the active connector's EIP-1193 provider,
+ * so injected, WalletConnect and Coinbase sessions all work the same way.
+ */
+
+/** EIP-1193 provider of the connected wagmi connector. */
+export async function getWalletEip1193(): Promise<ethers.Eip1193Provider> {
+  const { connector, status } = getAccount(wagmiConfig);
+  if (!connector || status !== "connected") throw new Error("Connect a wallet first");
+  return (await connector.getProvider()) as ethers.Eip1193Provider;
+}
+
+/** ethers signer for the connected account. */
+export async function getWalletSigner() {
+  const { address } = getAccount(wagmiConfig);
+  const bp = new ethers.BrowserProvider(await getWalletEip1193(), "any");
+  return bp.getSigner(address);
+}
+
+/** ethers provider over the connected wallet (null while disconnected); follows connector and chain changes. */
+export function useWalletProvider() {
+  const { connector, status, chainId } = useAccount();
+  const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
+
+  useEffect(() => {
+    if (!connector || status !== "connected") {
+      setProvider(null);
+      return;
+    }
+    let stop = false;
+    connector
+      .getProvider()
+      .then((p) => !stop && setProvider(new ethers.BrowserProvider(p as ethers.Eip1193Provider, "any")))
+      .catch(() => !stop && setProvider(null));
+    return () => {
+      stop = true;
+    };
+  }, [connector, status, chainId]);
+
+  return provider;
+}